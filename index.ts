@@ -2,13 +2,38 @@ export {
   BrokenTourStop,
   AbsoluteTourStop,
   isNotBroken,
+  RefreshReport,
   RepoIndex,
+  StopLocation,
+  StopRefreshReport,
   Tour,
   TourFile,
   TourStop,
   TourStopEdit,
   TourStopPos,
+  TourIssue,
+  TourIssueCode,
   TouristError,
+  validateTourFile,
 } from "./src/types";
 
 export { Tourist } from "./src/tourist";
+export { MigrationResult } from "./src/migrations";
+export { MergeConflict, MergeResult, mergeTourFiles } from "./src/merge";
+export {
+  CommitChange,
+  diffTourFiles,
+  FieldChange,
+  LocationChange,
+  StopChange,
+  StopEdit,
+  StopReorder,
+  summarizeTourDiff,
+  TourDiff,
+} from "./src/tourDiff";
+export { MarkdownOptions } from "./src/markdown";
+export { SiteOptions } from "./src/html";
+export { CodeTour, CodeTourStep, ConversionIssue } from "./src/codeTour";
+export { GitProvider, VersionProvider } from "./src/versionProvider";
+export { HgProvider } from "./src/hgProvider";
+export { SnapshotProvider } from "./src/snapshotProvider";
@@ -0,0 +1,120 @@
+/* An anchor is a snapshot of the text around a tour stop. When the line delta
+ * computed from the version provider can't account for a stop (usually
+ * because its line was rewritten rather than moved), the anchor lets us go
+ * looking for the closest match in the new file contents.
+ */
+
+export interface StopAnchor {
+  before: string[];
+  target: string;
+  after: string[];
+}
+
+/* Number of lines captured on either side of the target line. */
+const CONTEXT_LINES = 2;
+
+/* Minimum similarity between the anchored line and a candidate line. */
+const TARGET_THRESHOLD = 0.5;
+
+/* Minimum weighted similarity of the candidate and its surroundings. */
+const MATCH_THRESHOLD = 0.6;
+
+/* How much of the score comes from the target line, versus its context. */
+const TARGET_WEIGHT = 0.6;
+
+/**
+ * Takes a snapshot of `line` (1-indexed) and the lines surrounding it.
+ *
+ * @param lines The contents of the file, split into lines.
+ * @param line The line to anchor.
+ */
+export function captureAnchor(lines: string[], line: number): StopAnchor {
+  const index = line - 1;
+  return {
+    before: lines.slice(Math.max(0, index - CONTEXT_LINES), index),
+    target: lines[index] || "",
+    after: lines.slice(index + 1, index + 1 + CONTEXT_LINES),
+  };
+}
+
+/**
+ * Finds the line (1-indexed) in `lines` that best matches the anchor, or
+ * `null` if nothing is similar enough. Ties are broken in favor of the
+ * candidate closest to `hint`.
+ *
+ * @param anchor The anchor to search for.
+ * @param lines The contents of the file, split into lines.
+ * @param hint The line where the anchor was last known to be.
+ */
+export function matchAnchor(
+  anchor: StopAnchor,
+  lines: string[],
+  hint: number = 1,
+): number | null {
+  let best: number | null = null;
+  let bestScore = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const targetScore = similarity(anchor.target, lines[i]);
+    if (targetScore < TARGET_THRESHOLD) {
+      continue;
+    }
+
+    const context = [
+      ...anchor.before.map((text, j) =>
+        similarity(text, lines[i - anchor.before.length + j]),
+      ),
+      ...anchor.after.map((text, j) => similarity(text, lines[i + 1 + j])),
+    ];
+    const contextScore = context.length
+      ? context.reduce((x, y) => x + y, 0) / context.length
+      : targetScore;
+
+    const score =
+      TARGET_WEIGHT * targetScore + (1 - TARGET_WEIGHT) * contextScore;
+    if (score < MATCH_THRESHOLD) {
+      continue;
+    }
+    if (
+      best === null ||
+      score > bestScore ||
+      (score === bestScore && Math.abs(i + 1 - hint) < Math.abs(best - hint))
+    ) {
+      best = i + 1;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/* Dice coefficient over character bigrams, ignoring differences in
+ * whitespace. Returns a number between 0 (nothing in common) and 1 (equal).
+ */
+function similarity(a: string, b: string | undefined): number {
+  if (b === undefined) {
+    return 0;
+  }
+  const normA = a.replace(/\s+/g, " ").trim();
+  const normB = b.replace(/\s+/g, " ").trim();
+  if (normA === normB) {
+    return 1;
+  }
+  if (normA.length < 2 || normB.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < normA.length - 1; i++) {
+    const gram = normA.substr(i, 2);
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < normB.length - 1; i++) {
+    const gram = normB.substr(i, 2);
+    const count = bigrams.get(gram) || 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (normA.length - 1 + (normB.length - 1));
+}
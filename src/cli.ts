@@ -0,0 +1,681 @@
+#!/usr/bin/env node
+import * as af from "async-file";
+import os from "os";
+import * as pathutil from "path";
+import { mergeTourFiles } from "./merge";
+import { TouristServer } from "./server";
+import { diffTourFiles, summarizeTourDiff } from "./tourDiff";
+import { Tourist } from "./tourist";
+import { isNotBroken, TourFile, TourIssue, TouristError } from "./types";
+
+/* Where the repository mappings are kept, unless `--config` says otherwise. */
+const DEFAULT_CONFIG = pathutil.join(os.homedir(), ".tourist", "config.json");
+
+/* Flags that don't take a value. */
+const BOOLEAN_FLAGS = ["json", "help", "strict", "track-symbol"];
+
+/* Exit codes. A `TouristError` exits with `ERROR_EXIT` plus the hundreds digit
+ * of its code, so that scripts can tell, for instance, a bad location (11)
+ * from a repository problem (12) without parsing the message.
+ */
+const UNEXPECTED_EXIT = 1;
+const USAGE_EXIT = 2;
+const CONFLICT_EXIT = 3;
+const CHECK_EXIT = 4;
+const ERROR_EXIT = 10;
+
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/* What a command produced: `result` is printed with `--json`, `text`
+ * otherwise.
+ */
+interface CommandResult {
+  result: any;
+  text: string;
+  exitCode?: number;
+}
+
+interface Context {
+  args: string[];
+  flags: { [name: string]: string | true };
+  tourist: Tourist;
+  configPath: string;
+}
+
+interface Command {
+  usage: string;
+  run: (ctx: Context) => Promise<CommandResult>;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+const COMMANDS: { [name: string]: Command } = {
+  init: {
+    usage: "init <tour> [--title <title>] [--description <text>]",
+    run: async (ctx) => {
+      const [path] = positional(ctx, 1);
+      if (await af.exists(path)) {
+        throw new UsageError(`${path} already exists.`);
+      }
+      const title =
+        stringFlag(ctx, "title") ||
+        pathutil.basename(path, pathutil.extname(path));
+      const tf = await ctx.tourist.init(
+        title,
+        stringFlag(ctx, "description") || "",
+      );
+      await writeTour(ctx, path, tf);
+      return { result: { id: tf.id }, text: `Created ${path}` };
+    },
+  },
+  add: {
+    usage:
+      "add <tour> <file> <line> [--end-line <n>] [--column <n>] " +
+      "[--end-column <n>] [--title <title>] [--body <text>] [--index <n>] " +
+      "[--track-symbol]",
+    run: async (ctx) => {
+      const [path, file, line] = positional(ctx, 3);
+      const tf = await readTour(ctx, path);
+      const index = numberFlag(ctx, "index");
+      const id = await ctx.tourist.add(
+        tf,
+        {
+          absPath: pathutil.resolve(file),
+          line: toNumber(line, "line"),
+          ...rangeFlags(ctx),
+          title: stringFlag(ctx, "title") || "",
+          body: stringFlag(ctx, "body"),
+          childStops: [],
+          trackSymbol: ctx.flags["track-symbol"] === true,
+        },
+        index === undefined ? null : index,
+      );
+      await writeTour(ctx, path, tf);
+      return { result: { id }, text: id };
+    },
+  },
+  remove: {
+    usage: "remove <tour> <stop-id>",
+    run: async (ctx) => {
+      const [path, stopId] = positional(ctx, 2);
+      const tf = await readTour(ctx, path);
+      await ctx.tourist.remove(tf, stopId);
+      await writeTour(ctx, path, tf);
+      return { result: { id: stopId }, text: `Removed ${stopId}` };
+    },
+  },
+  edit: {
+    usage: "edit <tour> <stop-id> [--title <title>] [--body <text>]",
+    run: async (ctx) => {
+      const [path, stopId] = positional(ctx, 2);
+      const tf = await readTour(ctx, path);
+      await ctx.tourist.edit(tf, stopId, {
+        title: stringFlag(ctx, "title"),
+        body: stringFlag(ctx, "body"),
+      });
+      await writeTour(ctx, path, tf);
+      return { result: { id: stopId }, text: `Edited ${stopId}` };
+    },
+  },
+  move: {
+    usage:
+      "move <tour> <stop-id> <file> <line> [--end-line <n>] " +
+      "[--column <n>] [--end-column <n>]",
+    run: async (ctx) => {
+      const [path, stopId, file, line] = positional(ctx, 4);
+      const tf = await readTour(ctx, path);
+      await ctx.tourist.move(tf, stopId, {
+        absPath: pathutil.resolve(file),
+        line: toNumber(line, "line"),
+        ...rangeFlags(ctx),
+      });
+      await writeTour(ctx, path, tf);
+      return { result: { id: stopId }, text: `Moved ${stopId}` };
+    },
+  },
+  reorder: {
+    usage: "reorder <tour> <stop-id> <index>",
+    run: async (ctx) => {
+      const [path, stopId, index] = positional(ctx, 3);
+      const tf = await readTour(ctx, path);
+      await ctx.tourist.reorder(tf, stopId, toNumber(index, "index"));
+      await writeTour(ctx, path, tf);
+      return { result: { id: stopId }, text: `Moved ${stopId} to ${index}` };
+    },
+  },
+  link: {
+    usage: "link <tour> <stop-id> <tour-id> <stop-num>",
+    run: async (ctx) => {
+      const [path, stopId, tourId, stopNum] = positional(ctx, 4);
+      const tf = await readTour(ctx, path);
+      const child = { tourId, stopNum: toNumber(stopNum, "stop-num") };
+      await ctx.tourist.link(tf, stopId, child);
+      await writeTour(ctx, path, tf);
+      return {
+        result: { id: stopId, child },
+        text: `Linked ${stopId} to stop ${child.stopNum} of ${tourId}`,
+      };
+    },
+  },
+  refresh: {
+    usage: "refresh <tour> [repository] [--to <version>]",
+    run: async (ctx) => {
+      const [path, repository] = positional(ctx, 1, 2);
+      const target = stringFlag(ctx, "to");
+      const tf = await readTour(ctx, path);
+      const before = new Map(
+        tf.repositories.map((r): [string, string] => [r.repository, r.commit]),
+      );
+      if (repository !== undefined) {
+        await ctx.tourist.refresh(tf, repository, target);
+      } else if (target !== undefined) {
+        throw new UsageError("--to needs a repository to refresh.");
+      } else {
+        await ctx.tourist.refreshAll(tf);
+      }
+      await writeTour(ctx, path, tf);
+      const result = tf.repositories
+        .filter((r) => repository === undefined || r.repository === repository)
+        .map((r) => ({
+          repository: r.repository,
+          fromCommit: before.get(r.repository),
+          toCommit: r.commit,
+        }));
+      return {
+        result,
+        text: result
+          .map((r) => `${r.repository}: ${r.fromCommit} -> ${r.toCommit}`)
+          .join("\n"),
+      };
+    },
+  },
+  resolve: {
+    usage: "resolve <tour>",
+    run: async (ctx) => {
+      const [path] = positional(ctx, 1);
+      const tour = await ctx.tourist.resolve(await readTour(ctx, path));
+      const lines = tour.stops.map((stop, i) => {
+        const where = isNotBroken(stop)
+          ? `${stop.absPath}:${stop.line}`
+          : `broken (${stop.errors.join(", ")})`;
+        return `${i + 1}. ${stop.title} - ${where}`;
+      });
+      return { result: tour, text: [tour.title, ...lines].join("\n") };
+    },
+  },
+  map: {
+    usage: "map <repository> <path>",
+    run: async (ctx) => {
+      const [repository, path] = positional(ctx, 2);
+      ctx.tourist.mapConfig(repository, pathutil.resolve(path));
+      await writeConfig(ctx);
+      return {
+        result: { repository, path: ctx.tourist.config[repository] },
+        text: `Mapped ${repository} to ${ctx.tourist.config[repository]}`,
+      };
+    },
+  },
+  unmap: {
+    usage: "unmap <repository>",
+    run: async (ctx) => {
+      const [repository] = positional(ctx, 1);
+      ctx.tourist.unmapConfig(repository);
+      await writeConfig(ctx);
+      return { result: { repository }, text: `Unmapped ${repository}` };
+    },
+  },
+  config: {
+    usage: "config",
+    run: async (ctx) => {
+      positional(ctx, 0);
+      const config = ctx.tourist.config;
+      return {
+        result: config,
+        text: Object.keys(config)
+          .sort()
+          .map((repository) => `${repository}: ${config[repository]}`)
+          .join("\n"),
+      };
+    },
+  },
+  validate: {
+    usage: "validate <tour>...",
+    run: async (ctx) => {
+      if (ctx.args.length === 0) {
+        throw new UsageError("Expected at least one tour file.");
+      }
+      const result: Array<{
+        path: string;
+        valid: boolean;
+        problems: string[];
+        migrations: string[];
+      }> = [];
+      let exitCode = 0;
+      for (const path of ctx.args) {
+        try {
+          const { migrations } = ctx.tourist.migrateTourFile(
+            await readText(path),
+          );
+          result.push({ path, valid: true, problems: [], migrations });
+        } catch (e) {
+          if (!(e instanceof TouristError)) {
+            throw e;
+          }
+          exitCode = exitCode || exitCodeOf(e);
+          result.push({
+            path,
+            valid: false,
+            problems: e.problems || [e.message],
+            migrations: [],
+          });
+        }
+      }
+      return {
+        result,
+        text: result
+          .map((r) =>
+            r.valid
+              ? `${r.path}: ok`
+              : [`${r.path}:`, ...r.problems.map((p) => `  ${p}`)].join("\n"),
+          )
+          .join("\n"),
+        exitCode,
+      };
+    },
+  },
+  check: {
+    usage: "check <tour>... [--strict]",
+    run: async (ctx) => {
+      if (ctx.args.length === 0) {
+        throw new UsageError("Expected at least one tour file.");
+      }
+      const tourFiles: TourFile[] = [];
+      for (const path of ctx.args) {
+        tourFiles.push(await readTour(ctx, path));
+      }
+      const result: Array<{ path: string; issues: TourIssue[] }> = [];
+      for (let i = 0; i < tourFiles.length; i++) {
+        const issues = await ctx.tourist.checkTour(
+          tourFiles[i],
+          tourFiles.filter((_, j) => j !== i),
+        );
+        result.push({ path: ctx.args[i], issues });
+      }
+      // Warnings only fail the check with --strict
+      const failing = result.some((r) =>
+        r.issues.some(
+          (issue) => issue.severity === "error" || ctx.flags.strict === true,
+        ),
+      );
+      return {
+        result,
+        text: result
+          .map((r) =>
+            r.issues.length === 0
+              ? `${r.path}: ok`
+              : r.issues
+                  .map(
+                    (issue) =>
+                      `${r.path}: ${issue.severity} ${issue.code}: ` +
+                      issue.message,
+                  )
+                  .join("\n"),
+          )
+          .join("\n"),
+        exitCode: failing ? CHECK_EXIT : 0,
+      };
+    },
+  },
+  export: {
+    usage:
+      "export <tour>... [--format markdown|site|codetour] [--out <path>] " +
+      "[--context <n>]",
+    run: async (ctx) => {
+      if (ctx.args.length === 0) {
+        throw new UsageError("Expected at least one tour file.");
+      }
+      const tourFiles: TourFile[] = [];
+      for (const path of ctx.args) {
+        tourFiles.push(await readTour(ctx, path));
+      }
+      const format = stringFlag(ctx, "format") || "markdown";
+      const out = stringFlag(ctx, "out");
+      const context = numberFlag(ctx, "context");
+
+      if (format === "site") {
+        if (out === undefined) {
+          throw new UsageError("--out is required for a site.");
+        }
+        const written = await ctx.tourist.exportSite(tourFiles, out, {
+          context,
+        });
+        return { result: { written }, text: written.join("\n") };
+      }
+      if (tourFiles.length > 1) {
+        throw new UsageError(`Only one tour can be exported as ${format}.`);
+      }
+      if (format === "markdown") {
+        const markdown = await ctx.tourist.exportMarkdown(tourFiles[0], {
+          context,
+        });
+        if (out !== undefined) {
+          await af.writeTextFile(out, markdown);
+          return { result: { written: [out] }, text: out };
+        }
+        return { result: { markdown }, text: markdown.trimRight() };
+      }
+      if (format === "codetour") {
+        const { tours, lost } = ctx.tourist.exportCodeTour(tourFiles[0]);
+        if (out !== undefined) {
+          await af.mkdirp(out);
+          const written: string[] = [];
+          for (const { repository, codeTour } of tours) {
+            const file = pathutil.join(out, `${repository}.tour`);
+            await af.writeTextFile(file, JSON.stringify(codeTour, null, 2));
+            written.push(file);
+          }
+          return {
+            result: { written, lost },
+            text: [
+              ...written,
+              ...lost.map((l) => `stop ${l.index}: ${l.reason}`),
+            ].join("\n"),
+          };
+        }
+        return {
+          result: { tours, lost },
+          text: JSON.stringify(tours, null, 2),
+        };
+      }
+      throw new UsageError(`Unknown format ${format}.`);
+    },
+  },
+  merge: {
+    usage: "merge <base> <ours> <theirs> [--out <tour>]",
+    run: async (ctx) => {
+      const [basePath, ourPath, theirPath] = positional(ctx, 3);
+      // Git gives an empty base when both sides added the file. Without a
+      // base, there's no telling which side's changes to keep.
+      const baseText = await readText(basePath);
+      if (!baseText.trim()) {
+        throw new Error(`${basePath} is empty, so there is nothing to merge.`);
+      }
+      const base = ctx.tourist.deserializeTourFile(baseText);
+      const ours = await readTour(ctx, ourPath);
+      const theirs = await readTour(ctx, theirPath);
+
+      const { tourFile, conflicts } = mergeTourFiles(base, ours, theirs);
+      await writeTour(ctx, stringFlag(ctx, "out") || ourPath, tourFile);
+      return {
+        result: { conflicts },
+        text: conflicts
+          .map(
+            (c) =>
+              `conflict: ${c.field}` +
+              (c.stopId ? ` of stop ${c.stopId}` : "") +
+              (c.repository ? ` of repository ${c.repository}` : ""),
+          )
+          .join("\n"),
+        exitCode: conflicts.length > 0 ? CONFLICT_EXIT : 0,
+      };
+    },
+  },
+  diff: {
+    usage: "diff <old> <new>",
+    run: async (ctx) => {
+      const [oldPath, newPath] = positional(ctx, 2);
+      const diff = diffTourFiles(
+        await readTour(ctx, oldPath),
+        await readTour(ctx, newPath),
+      );
+      return { result: diff, text: summarizeTourDiff(diff).trimRight() };
+    },
+  },
+  serve: {
+    usage: "serve",
+    run: async (ctx) => {
+      positional(ctx, 0);
+      await new TouristServer(ctx.tourist).listen(
+        process.stdin,
+        process.stdout,
+      );
+      return { result: undefined, text: "" };
+    },
+  },
+};
+
+/**
+ * Runs the command-line tool, returning the exit code.
+ *
+ * @param argv The arguments, not including the program name.
+ * @param output Where to write output, the process's streams by default.
+ */
+export async function main(
+  argv: string[],
+  output: CliOutput = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  },
+): Promise<number> {
+  let json = false;
+  try {
+    const { args, flags } = parseArgs(argv);
+    json = flags.json === true;
+    const [name, ...rest] = args;
+    if (name === "help" || flags.help === true) {
+      output.stdout(usage());
+      return 0;
+    }
+    if (name === undefined) {
+      output.stderr(usage());
+      return USAGE_EXIT;
+    }
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command ${name}.`);
+    }
+
+    const configPath =
+      typeof flags.config === "string" ? flags.config : DEFAULT_CONFIG;
+    const tourist = (await af.exists(configPath))
+      ? Tourist.deserialize(await readText(configPath))
+      : new Tourist();
+    const { result, text, exitCode } = await command.run({
+      args: rest,
+      flags,
+      tourist,
+      configPath,
+    });
+    const printed = json ? JSON.stringify(result, null, 2) : text;
+    if (printed) {
+      output.stdout(printed + "\n");
+    }
+    return exitCode || 0;
+  } catch (e) {
+    if (json) {
+      output.stderr(
+        JSON.stringify({ error: describeError(e) }, null, 2) + "\n",
+      );
+    } else {
+      const problems: string[] =
+        (e instanceof TouristError && e.problems) || [];
+      output.stderr(
+        [
+          e instanceof TouristError
+            ? `error ${e.code}: ${e.message}`
+            : `error: ${e.message}`,
+          ...problems.map((p) => `  ${p}`),
+        ].join("\n") + "\n",
+      );
+      if (e instanceof UsageError) {
+        output.stderr(usage());
+      }
+    }
+    return exitCodeOf(e);
+  }
+}
+
+function exitCodeOf(e: Error): number {
+  if (e instanceof TouristError) {
+    return ERROR_EXIT + Math.floor(e.code / 100);
+  }
+  return e instanceof UsageError ? USAGE_EXIT : UNEXPECTED_EXIT;
+}
+
+function describeError(e: Error): any {
+  if (e instanceof TouristError) {
+    return {
+      code: e.code,
+      message: e.message,
+      repository: e.repoName,
+      problems: e.problems,
+      causes: e.causes ? e.causes.map(describeError) : undefined,
+    };
+  }
+  return { message: e.message };
+}
+
+function usage(): string {
+  const commands = Object.keys(COMMANDS).map(
+    (name) => `  tourist ${COMMANDS[name].usage}`,
+  );
+  return [
+    "Usage:",
+    ...commands,
+    "",
+    "Options:",
+    `  --config <path>  Repository mappings (default ${DEFAULT_CONFIG})`,
+    "  --json           Print results and errors as JSON",
+    "",
+  ].join("\n");
+}
+
+/* Splits arguments into positional ones and `--flag value` (or
+ * `--flag=value`) pairs.
+ */
+function parseArgs(
+  argv: string[],
+): { args: string[]; flags: { [name: string]: string | true } } {
+  const args: string[] = [];
+  const flags: { [name: string]: string | true } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      args.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      args.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = arg.slice(2, eq < 0 ? undefined : eq);
+    if (eq >= 0) {
+      flags[name] = arg.slice(eq + 1);
+    } else if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+    } else if (i + 1 < argv.length) {
+      flags[name] = argv[++i];
+    } else {
+      throw new UsageError(`--${name} needs a value.`);
+    }
+  }
+  return { args, flags };
+}
+
+/* The command's positional arguments, checking there are between `min` and
+ * `max` of them.
+ */
+function positional(ctx: Context, min: number, max: number = min): string[] {
+  if (ctx.args.length < min || ctx.args.length > max) {
+    throw new UsageError(
+      min === max
+        ? `Expected ${min} argument(s), got ${ctx.args.length}.`
+        : `Expected ${min} to ${max} arguments, got ${ctx.args.length}.`,
+    );
+  }
+  return ctx.args;
+}
+
+function stringFlag(ctx: Context, name: string): string | undefined {
+  const value = ctx.flags[name];
+  if (value === true) {
+    throw new UsageError(`--${name} needs a value.`);
+  }
+  return value;
+}
+
+function numberFlag(ctx: Context, name: string): number | undefined {
+  const value = stringFlag(ctx, name);
+  return value === undefined ? undefined : toNumber(value, `--${name}`);
+}
+
+function toNumber(value: string, name: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isInteger(n)) {
+    throw new UsageError(`${name} must be a whole number, not ${value}.`);
+  }
+  return n;
+}
+
+/* The optional parts of a stop's range, from their flags. */
+function rangeFlags(
+  ctx: Context,
+): { endLine?: number; column?: number; endColumn?: number } {
+  const range: { endLine?: number; column?: number; endColumn?: number } = {};
+  const endLine = numberFlag(ctx, "end-line");
+  const column = numberFlag(ctx, "column");
+  const endColumn = numberFlag(ctx, "end-column");
+  if (endLine !== undefined) {
+    range.endLine = endLine;
+  }
+  if (column !== undefined) {
+    range.column = column;
+  }
+  if (endColumn !== undefined) {
+    range.endColumn = endColumn;
+  }
+  return range;
+}
+
+async function readText(path: string): Promise<string> {
+  try {
+    return await af.readTextFile(path);
+  } catch (_) {
+    throw new Error(`Could not read ${path}.`);
+  }
+}
+
+async function readTour(ctx: Context, path: string): Promise<TourFile> {
+  return ctx.tourist.deserializeTourFile(await readText(path));
+}
+
+async function writeTour(ctx: Context, path: string, tf: TourFile) {
+  await af.writeTextFile(path, ctx.tourist.serializeTourFile(tf));
+}
+
+async function writeConfig(ctx: Context) {
+  await af.mkdirp(pathutil.dirname(ctx.configPath));
+  await af.writeTextFile(ctx.configPath, ctx.tourist.serialize());
+}
+
+if (require.main === module) {
+  // Setting the exit code, rather than exiting, lets piped output drain first
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (e) => {
+      process.stderr.write(`${e && e.stack ? e.stack : e}\n`);
+      process.exitCode = UNEXPECTED_EXIT;
+    },
+  );
+}
@@ -0,0 +1,245 @@
+import { captureAnchor } from "./anchor";
+import { hasSymbols, symbolAt } from "./symbols";
+import { TourFile, TourStop } from "./types";
+
+/* Tours in the CodeTour format, as written by the CodeTour editor extension
+ * to `.tours/*.tour`. Lines and characters are 1-indexed.
+ */
+
+export interface CodeTourPosition {
+  line: number;
+  character: number;
+}
+
+export interface CodeTourStep {
+  title?: string;
+  description: string;
+  /* The kinds of step: a file (with a line or a pattern), a directory, a
+   * URI, or none of these for a step that is only a description.
+   */
+  file?: string;
+  line?: number;
+  pattern?: string;
+  selection?: { start: CodeTourPosition; end: CodeTourPosition };
+  directory?: string;
+  uri?: string;
+}
+
+export interface CodeTour {
+  $schema?: string;
+  title: string;
+  description?: string;
+  ref?: string;
+  steps: CodeTourStep[];
+}
+
+/**
+ * Something that couldn't be carried over when converting between formats.
+ * `index` is the position of the step or stop it belongs to.
+ */
+export interface ConversionIssue {
+  index: number;
+  reason: string;
+}
+
+export function validCodeTour(obj: any): obj is CodeTour {
+  try {
+    return [
+      typeof obj.title === "string",
+      obj.steps.every(
+        (step: any) =>
+          typeof step === "object" &&
+          step !== null &&
+          (step.file === undefined || typeof step.file === "string") &&
+          (step.line === undefined || typeof step.line === "number"),
+      ),
+      obj.ref === undefined || typeof obj.ref === "string",
+    ].reduce((x, y) => x && y, true);
+  } catch (_) {
+    return false;
+  }
+}
+
+/**
+ * Converts the steps of a CodeTour into tour stops in `repository`, which the
+ * CodeTour's workspace root maps to. Steps that don't point at a line of a
+ * file are skipped, and reported.
+ *
+ * @param codeTour The tour to convert.
+ * @param tourId The ID of the tour file the stops are for.
+ * @param repository The repository that the steps' files are in.
+ * @param read Reads a file, by its path in the repository, at the version
+ *  that the tour is pinned to.
+ * @param trackSymbols Whether to record the symbol that each stop is in, for
+ *  stops in TypeScript and JavaScript files.
+ */
+export async function stopsFromCodeTour(
+  codeTour: CodeTour,
+  tourId: string,
+  repository: string,
+  read: (path: string) => Promise<string | null>,
+  trackSymbols: boolean = false,
+): Promise<{ stops: TourStop[]; skipped: ConversionIssue[] }> {
+  const stops: TourStop[] = [];
+  const skipped: ConversionIssue[] = [];
+  for (let index = 0; index < codeTour.steps.length; index++) {
+    const step = codeTour.steps[index];
+    const skip = (reason: string) => skipped.push({ index, reason });
+
+    if (step.directory !== undefined) {
+      skip(`Directory steps can't be imported (${step.directory}).`);
+      continue;
+    }
+    if (step.uri !== undefined) {
+      skip(`URI steps can't be imported (${step.uri}).`);
+      continue;
+    }
+    if (step.file === undefined) {
+      skip("Steps without a file can't be imported.");
+      continue;
+    }
+
+    const relPath = step.file.replace(/\\/g, "/").replace(/^\.?\//, "");
+    const line =
+      step.line !== undefined
+        ? step.line
+        : step.selection
+        ? step.selection.start.line
+        : undefined;
+    if (line === undefined) {
+      skip(
+        step.pattern !== undefined
+          ? `Pattern steps can't be imported (${step.pattern}).`
+          : `Step in ${relPath} has no line.`,
+      );
+      continue;
+    }
+
+    const contents = await read(relPath);
+    if (contents === null) {
+      skip(`Could not read ${relPath}.`);
+      continue;
+    }
+    const lines = contents.split("\n");
+    if (line < 1 || line > lines.length) {
+      skip(`No line ${line} in ${relPath}.`);
+      continue;
+    }
+
+    const stop: TourStop = {
+      id: `${tourId}:${stops.length}`,
+      title: step.title || `Step ${index + 1}`,
+      body: step.description,
+      line,
+      relPath,
+      repository,
+      childStops: [],
+      anchor: captureAnchor(lines, line),
+    };
+    if (step.selection) {
+      const { start, end } = step.selection;
+      // A selection that ends at the start of a line covers the line before it
+      const wholeLines = end.character === 1 && end.line > start.line;
+      const endLine = Math.min(
+        wholeLines ? end.line - 1 : end.line,
+        lines.length,
+      );
+      if (endLine > line) {
+        stop.endLine = endLine;
+      }
+      if (start.line === line && start.character > 1) {
+        stop.column = start.character;
+      }
+      if (!wholeLines) {
+        stop.endColumn = end.character;
+      }
+    }
+    if (trackSymbols && hasSymbols(relPath)) {
+      const symbol = symbolAt(relPath, contents, line);
+      if (symbol) {
+        stop.symbol = symbol;
+      }
+    }
+    stops.push(stop);
+  }
+  return { stops, skipped };
+}
+
+/**
+ * Converts a tour file into CodeTours, one for each repository it has stops
+ * in, since a CodeTour only covers a single workspace. Stops are turned into
+ * file steps, with a selection for stops that cover a range. Anything a
+ * CodeTour can't hold, such as child stops and broken stops, is reported in
+ * `lost`, by the index of the stop in the tour file.
+ *
+ * Only git versions are given as the CodeTour's `ref`, as that's the only
+ * version control system CodeTour knows about.
+ *
+ * @param tf The tour file to convert.
+ */
+export function codeToursFromTourFile(
+  tf: TourFile,
+): {
+  tours: Array<{ repository: string; codeTour: CodeTour }>;
+  lost: ConversionIssue[];
+} {
+  const byRepository = new Map<string, CodeTourStep[]>();
+  const lost: ConversionIssue[] = [];
+  tf.stops.forEach((stop, index) => {
+    if (stop.line === 0 || stop.relPath === "") {
+      lost.push({ index, reason: `Stop "${stop.title}" is broken.` });
+      return;
+    }
+    if (stop.childStops.length > 0) {
+      lost.push({
+        index,
+        reason: `Child stops of "${stop.title}" can't be represented.`,
+      });
+    }
+
+    const step: CodeTourStep = {
+      title: stop.title,
+      description: stop.body || "",
+      file: stop.relPath,
+      line: stop.line,
+    };
+    if (
+      stop.endLine !== undefined ||
+      stop.column !== undefined ||
+      stop.endColumn !== undefined
+    ) {
+      const endLine = stop.endLine === undefined ? stop.line : stop.endLine;
+      step.selection = {
+        start: { line: stop.line, character: stop.column || 1 },
+        // Without an end column, select up to the start of the next line
+        end:
+          stop.endColumn === undefined
+            ? { line: endLine + 1, character: 1 }
+            : { line: endLine, character: stop.endColumn },
+      };
+    }
+    const steps = byRepository.get(stop.repository) || [];
+    steps.push(step);
+    byRepository.set(stop.repository, steps);
+  });
+
+  const tours: Array<{ repository: string; codeTour: CodeTour }> = [];
+  byRepository.forEach((steps, repository) => {
+    const codeTour: CodeTour = {
+      $schema: "https://aka.ms/codetour-schema",
+      title: byRepository.size > 1 ? `${tf.title} (${repository})` : tf.title,
+      steps,
+    };
+    if (tf.description) {
+      codeTour.description = tf.description;
+    }
+    const repoState = tf.repositories.find(
+      (st) => st.repository === repository,
+    );
+    if (repoState && (repoState.vcs || "git") === "git") {
+      codeTour.ref = repoState.commit;
+    }
+    tours.push({ repository, codeTour });
+  });
+  return { tours, lost };
+}
@@ -0,0 +1,205 @@
+import * as af from "async-file";
+import crypto from "crypto";
+import * as pathutil from "path";
+import { AbsolutePath, RelativePath } from "./paths";
+import { FileChanges } from "./fileChanges";
+
+export interface DiffCacheKey {
+  repoPath: AbsolutePath;
+  commit: string;
+  /* What `commit` is being compared to. Version providers should use
+   * `WORKING_COPY` for diffs against files on disk, and a string that names
+   * an exact version otherwise.
+   */
+  mode: string;
+}
+
+export const WORKING_COPY = "working-copy";
+
+/* The form that file changes take in the cache, and on disk. */
+interface CachedChanges {
+  additions: number[];
+  deletions: number[];
+  moves: Array<[number, number]>;
+  name: string;
+}
+
+/**
+ * Somewhere, other than memory, to keep diffs between immutable versions.
+ */
+export interface DiffCacheStore {
+  load(key: string): Promise<CachedChanges | undefined>;
+  save(key: string, changes: CachedChanges): Promise<void>;
+}
+
+/**
+ * Stores each cached diff as a JSON file in a directory, such as
+ * `.git/tourist-cache`.
+ */
+export class DirectoryStore implements DiffCacheStore {
+  public readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  public async load(key: string): Promise<CachedChanges | undefined> {
+    try {
+      return JSON.parse(await af.readTextFile(this.fileFor(key), "utf8"));
+    } catch (_) {
+      return undefined;
+    }
+  }
+
+  public async save(key: string, changes: CachedChanges) {
+    try {
+      await af.mkdirp(this.dir);
+      await af.writeTextFile(this.fileFor(key), JSON.stringify(changes));
+    } catch (_) {
+      // The cache is only an optimization, so failing to write is fine
+    }
+  }
+
+  private fileFor(key: string): string {
+    const hash = crypto
+      .createHash("sha1")
+      .update(key)
+      .digest("hex");
+    return pathutil.join(this.dir, `${hash}.json`);
+  }
+}
+
+/* Upper bound on the number of files kept in memory. */
+const MAX_ENTRIES = 10000;
+
+/**
+ * Caches the changes to individual files between two versions of a
+ * repository.
+ *
+ * Diffs between two exact versions never change, so they are kept in memory
+ * for as long as the process lives (and in a `DiffCacheStore`, if one is
+ * given). Diffs against the working copy are only kept between calls to
+ * `start` and `invalidate`, since files on disk may change at any time.
+ */
+export class DiffCache {
+  public static getInstance() {
+    if (!DiffCache.instance) {
+      DiffCache.instance = new DiffCache();
+    }
+    return DiffCache.instance;
+  }
+  private static instance: DiffCache;
+  private immutable: Map<string, CachedChanges>;
+  private session: Map<string, CachedChanges> | null;
+  private constructor() {
+    this.immutable = new Map();
+    this.session = null;
+  }
+  public start() {
+    this.session = new Map();
+  }
+  public async load(
+    key: DiffCacheKey,
+    path: string,
+    store?: DiffCacheStore,
+  ): Promise<FileChanges | undefined> {
+    const id = cacheId(key, path);
+    let cached: CachedChanges | undefined;
+    if (key.mode === WORKING_COPY) {
+      cached = this.session ? this.session.get(id) : undefined;
+    } else {
+      cached = this.immutable.get(id);
+      if (!cached && store) {
+        cached = await store.load(id);
+        if (cached) {
+          this.remember(id, cached);
+        }
+      }
+    }
+    return cached ? fromCached(cached) : undefined;
+  }
+  public async save(
+    key: DiffCacheKey,
+    path: string,
+    changes: FileChanges,
+    store?: DiffCacheStore,
+  ) {
+    const id = cacheId(key, path);
+    const cached = toCached(changes);
+    if (key.mode === WORKING_COPY) {
+      if (this.session) {
+        this.session.set(id, cached);
+      }
+    } else {
+      this.remember(id, cached);
+      if (store) {
+        await store.save(id, cached);
+      }
+    }
+  }
+  /* Loads the changes for each path from the cache, calling `compute` for any
+   * that are missing, and caching the result.
+   */
+  public async lookup(
+    key: DiffCacheKey,
+    paths: RelativePath[],
+    compute: (missing: RelativePath[]) => Promise<FileChanges[]>,
+    store?: DiffCacheStore,
+  ): Promise<FileChanges[]> {
+    const result = await Promise.all(
+      paths.map((path) => this.load(key, path.path, store)),
+    );
+    const missing = paths.filter((_, i) => !result[i]);
+    if (missing.length > 0) {
+      const changes = await compute(missing);
+      for (let i = 0; i < missing.length; i++) {
+        await this.save(key, missing[i].path, changes[i], store);
+        result[paths.indexOf(missing[i])] = changes[i];
+      }
+    }
+    return result as FileChanges[];
+  }
+  public invalidate() {
+    this.session = null;
+  }
+  public clear() {
+    this.immutable.clear();
+    this.session = null;
+  }
+
+  private remember(id: string, cached: CachedChanges) {
+    if (this.immutable.size >= MAX_ENTRIES) {
+      // Maps iterate in insertion order, so this evicts the oldest entry
+      this.immutable.delete(this.immutable.keys().next().value);
+    }
+    this.immutable.set(id, cached);
+  }
+}
+
+function cacheId(key: DiffCacheKey, path: string): string {
+  return [key.repoPath.path, key.commit, key.mode, path].join("\0");
+}
+
+function toCached(changes: FileChanges): CachedChanges {
+  const moves: Array<[number, number]> = [];
+  changes.moves.forEach((after, before) => moves.push([before, after]));
+  return {
+    additions: changes.additions.slice(),
+    deletions: changes.deletions.slice(),
+    moves,
+    name: changes.name,
+  };
+}
+
+function fromCached(cached: CachedChanges): FileChanges {
+  const moves = new Map<number, number>();
+  for (const [before, after] of cached.moves) {
+    moves.set(before, after);
+  }
+  return new FileChanges(
+    cached.additions.slice(),
+    cached.deletions.slice(),
+    moves,
+    cached.name,
+  );
+}
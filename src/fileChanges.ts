@@ -1,3 +1,22 @@
+/* The rule used by `FileChanges` to map a line:
+ *  - "deleted", the line was removed
+ *  - "moves", the line appears in the diff and was mapped directly
+ *  - "arithmetic", the line was mapped by counting additions and deletions
+ */
+export type DeltaRule = "deleted" | "moves" | "arithmetic";
+
+/* The result of mapping a range of lines. `first` and `last` are the lines in
+ * the original range that `start` and `end` were mapped from, and `deleted`
+ * counts the lines in the range that could not be mapped.
+ */
+export interface RangeDelta {
+  start: number | null;
+  end: number | null;
+  first: number | null;
+  last: number | null;
+  deleted: number;
+}
+
 export class FileChanges {
   public additions: number[];
   public deletions: number[];
@@ -17,11 +36,20 @@ export class FileChanges {
   }
 
   public computeDelta(line: number): number | null {
+    return this.computeDeltaWithRule(line).line;
+  }
+
+  /**
+   * Like `computeDelta`, but also reports which rule was used to map the line.
+   */
+  public computeDeltaWithRule(
+    line: number,
+  ): { line: number | null; rule: DeltaRule } {
     if (this.deletions.includes(line)) {
-      return null;
+      return { line: null, rule: "deleted" };
     }
     if (this.moves.has(line)) {
-      return this.moves.get(line)!;
+      return { line: this.moves.get(line)!, rule: "moves" };
     }
 
     line -= this.deletions.length;
@@ -32,7 +60,24 @@ export class FileChanges {
         break;
       }
     }
-    return line;
+    return { line, rule: "arithmetic" };
+  }
+
+  /**
+   * Maps a range of lines, from `start` to `end` inclusive. If lines at either
+   * end of the range were deleted, the range shrinks to the lines that are
+   * left; if every line was deleted, both ends are `null`.
+   */
+  public computeRangeDelta(start: number, end: number): RangeDelta {
+    return mapRange(start, end, (line) => this.computeDelta(line));
+  }
+
+  /**
+   * Like `computeRangeDelta`, but in the opposite direction, as in
+   * `undoDelta`.
+   */
+  public undoRangeDelta(start: number, end: number): RangeDelta {
+    return mapRange(start, end, (line) => this.undoDelta(line));
   }
 
   public undoDelta(line: number): number | null {
@@ -60,3 +105,31 @@ export class FileChanges {
     return line;
   }
 }
+
+function mapRange(
+  start: number,
+  end: number,
+  map: (line: number) => number | null,
+): RangeDelta {
+  const result: RangeDelta = {
+    start: null,
+    end: null,
+    first: null,
+    last: null,
+    deleted: 0,
+  };
+  for (let line = start; line <= end; line++) {
+    const mapped = map(line);
+    if (mapped === null) {
+      result.deleted++;
+      continue;
+    }
+    if (result.start === null) {
+      result.start = mapped;
+      result.first = line;
+    }
+    result.end = mapped;
+    result.last = line;
+  }
+  return result;
+}
@@ -0,0 +1,152 @@
+import parseDiff from "parse-diff";
+import { AbsolutePath, RelativePath } from "./paths";
+import { FileChanges } from "./fileChanges";
+import { TouristError } from "./types";
+import { DiffCache, DiffCacheKey, WORKING_COPY } from "./diffCache";
+import {
+  fileChangesFromDiff,
+  runCommand,
+  runDiff,
+  VersionProvider,
+} from "./versionProvider";
+
+/* HGPLAIN turns off any user configuration that would change hg's output. */
+const HG_ENV = { ...process.env, HGPLAIN: "1" };
+
+/* The revision hg reports for a repository with no commits. */
+const NULL_REVISION = "0000000000000000000000000000000000000000";
+
+export class HgProvider implements VersionProvider {
+  public async getCurrentVersion(path: AbsolutePath): Promise<string | null> {
+    return await this.resolveVersion(".", path);
+  }
+
+  public async resolveVersion(
+    ref: string,
+    path: AbsolutePath,
+  ): Promise<string | null> {
+    try {
+      const node = await this.hg(path, "id", ["--debug", "-i", "-r", ref]);
+      const version = node.trim();
+      return version && version !== NULL_REVISION ? version : null;
+    } catch (_) {
+      return null;
+    }
+  }
+
+  public async getFileContents(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<string | null> {
+    try {
+      return await this.hg(repoPath, "cat", [
+        "-r",
+        version,
+        `path:${path.path}`,
+      ]);
+    } catch (_) {
+      return null;
+    }
+  }
+
+  public async listFiles(
+    version: string,
+    repoPath: AbsolutePath,
+  ): Promise<string[] | null> {
+    try {
+      const files = await this.hg(repoPath, "files", ["-r", version, "-0"]);
+      return files.split("\0").filter((file) => file);
+    } catch (_) {
+      return null;
+    }
+  }
+
+  public async hg(
+    path: AbsolutePath,
+    command: string,
+    args: string[],
+  ): Promise<string> {
+    return await runCommand(
+      "hg",
+      ["--cwd", path.path, command, ...args],
+      HG_ENV,
+    );
+  }
+
+  public async hgDiff(
+    path: AbsolutePath,
+    args: string[],
+  ): Promise<parseDiff.File[]> {
+    return await runDiff("hg", ["--cwd", path.path, "diff", ...args], HG_ENV);
+  }
+
+  public async getDirtyChangesForFile(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<FileChanges | null> {
+    return (await this.getDirtyChangesForFiles(version, [path], repoPath))[0];
+  }
+
+  public async getChangesForFile(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<FileChanges | null> {
+    return (
+      await this.getChangesForFiles(version, [path], repoPath, target)
+    )[0];
+  }
+
+  public async getDirtyChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<Array<FileChanges | null>> {
+    return await this.getGenericChangesForFiles(
+      ["-r", version],
+      { repoPath, commit: version, mode: WORKING_COPY },
+      paths,
+    );
+  }
+
+  public async getChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<Array<FileChanges | null>> {
+    const to = await this.resolveVersion(target || ".", repoPath);
+    if (!to) {
+      throw new TouristError(
+        206,
+        `Could not find version ${target || "."} in repository ` +
+          `${repoPath.path}.`,
+      );
+    }
+    return await this.getGenericChangesForFiles(
+      ["-r", version, "-r", to],
+      { repoPath, commit: version, mode: `..${to}` },
+      paths,
+    );
+  }
+
+  private async getGenericChangesForFiles(
+    revisions: string[],
+    key: DiffCacheKey,
+    paths: RelativePath[],
+  ): Promise<Array<FileChanges | null>> {
+    return await DiffCache.getInstance().lookup(key, paths, async (missing) => {
+      // Diffing the whole repository lets hg pair up renames on its own, so
+      // unlike with git, we don't narrow the diff down to `missing`.
+      const files = await this.hgDiff(key.repoPath, [
+        "--git",
+        "--ignore-space-at-eol",
+        ...revisions,
+      ]);
+      return missing.map((path) => fileChangesFromDiff(files, path));
+    });
+  }
+}
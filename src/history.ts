@@ -0,0 +1,138 @@
+import { TourFile } from "./types";
+
+/* Undo and redo for tour files. Each change to a tour file is recorded as a
+ * pair of patches: one that takes the tour file back to how it was, and one
+ * that brings the change back. Patches only hold the fields that the change
+ * touched, stored as JSON so that later changes can't reach them. Stops are
+ * kept as a list in order rather than by ID, since nothing stops a tour file
+ * from having two stops with the same ID.
+ */
+
+/**
+ * The parts of a tour file that differ between two states. A `null` value
+ * means the field is absent. `stops` lists every stop, in order, and is only
+ * there if any of them changed.
+ */
+export interface TourPatch {
+  fields: { [key: string]: string | null };
+  stops?: string[];
+}
+
+/**
+ * A recorded change to a tour file. `name` is the `Tourist` method that made
+ * it.
+ */
+export interface Operation {
+  name: string;
+  before: TourPatch;
+  after: TourPatch;
+}
+
+/* The state of a tour file, as JSON. */
+interface Snapshot {
+  fields: { [key: string]: string };
+  stops: string[];
+}
+
+export function capture(tf: TourFile): Snapshot {
+  const fields: { [key: string]: string } = {};
+  for (const key of Object.keys(tf)) {
+    const value = (tf as any)[key];
+    if (key !== "stops" && value !== undefined) {
+      fields[key] = JSON.stringify(value);
+    }
+  }
+  return { fields, stops: tf.stops.map((stop) => JSON.stringify(stop)) };
+}
+
+/**
+ * Works out the patches between two states of a tour file, or returns `null`
+ * if nothing changed.
+ */
+export function diff(
+  from: Snapshot,
+  to: Snapshot,
+): { before: TourPatch; after: TourPatch } | null {
+  const before: TourPatch = { fields: {} };
+  const after: TourPatch = { fields: {} };
+  let changed = false;
+  const keys = Object.keys(from.fields).concat(
+    Object.keys(to.fields).filter((key) => !from.fields.hasOwnProperty(key)),
+  );
+  for (const key of keys) {
+    const x = from.fields.hasOwnProperty(key) ? from.fields[key] : null;
+    const y = to.fields.hasOwnProperty(key) ? to.fields[key] : null;
+    if (x !== y) {
+      before.fields[key] = x;
+      after.fields[key] = y;
+      changed = true;
+    }
+  }
+  if (
+    from.stops.length !== to.stops.length ||
+    from.stops.some((stop, i) => stop !== to.stops[i])
+  ) {
+    before.stops = from.stops;
+    after.stops = to.stops;
+    changed = true;
+  }
+  return changed ? { before, after } : null;
+}
+
+export function applyPatch(tf: TourFile, patch: TourPatch) {
+  for (const key of Object.keys(patch.fields)) {
+    const value = patch.fields[key];
+    if (value === null) {
+      delete (tf as any)[key];
+    } else {
+      (tf as any)[key] = JSON.parse(value);
+    }
+  }
+  if (patch.stops) {
+    tf.stops = patch.stops.map((stop) => JSON.parse(stop));
+  }
+}
+
+/**
+ * The operations done to a tour file, most recent last, and the ones that
+ * have been undone and could be redone. At most `limit` operations are kept.
+ */
+export class History {
+  public limit: number;
+  private done: Operation[];
+  private undone: Operation[];
+
+  constructor(limit: number) {
+    this.limit = limit;
+    this.done = [];
+    this.undone = [];
+  }
+
+  public record(op: Operation) {
+    this.done.push(op);
+    while (this.done.length > this.limit) {
+      this.done.shift();
+    }
+    this.undone = [];
+  }
+
+  public undo(tf: TourFile): Operation | null {
+    const op = this.done.pop();
+    if (!op) {
+      return null;
+    }
+    applyPatch(tf, op.before);
+    this.undone.push(op);
+    return op;
+  }
+
+  public redo(tf: TourFile): Operation | null {
+    const op = this.undone.pop();
+    if (!op) {
+      return null;
+    }
+    applyPatch(tf, op.after);
+    this.done.push(op);
+    return op;
+  }
+}
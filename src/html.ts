@@ -0,0 +1,366 @@
+import * as af from "async-file";
+import * as pathutil from "path";
+import ts from "typescript";
+import { AbsolutePath } from "./paths";
+import { hasSymbols } from "./symbols";
+import {
+  AbsoluteTourStop,
+  BrokenTourStop,
+  isNotBroken,
+  RepoIndex,
+  Tour,
+  TourFile,
+} from "./types";
+
+export interface SiteOptions {
+  /* Number of lines of source shown on either side of each stop. */
+  context?: number;
+}
+
+/* A file in a generated site, with a path relative to the site's root. */
+export interface SitePage {
+  path: string;
+  html: string;
+}
+
+const DEFAULT_CONTEXT = 10;
+
+const STYLE = `
+body { font-family: sans-serif; max-width: 60em; margin: 2em auto; padding: 0 1em; color: #222; }
+nav { display: flex; justify-content: space-between; margin-bottom: 1em; }
+.location { font-family: monospace; color: #555; }
+.broken { background: #fdecea; border-left: 4px solid #d93025; padding: 0.5em 1em; }
+.warning { background: #fff8e1; border-left: 4px solid #f9a825; padding: 0.5em 1em; }
+pre.code { background: #f6f8fa; padding: 0.5em 0; overflow-x: auto; line-height: 1.4; }
+pre.code .line { display: block; padding: 0 1em; }
+pre.code .line.target { background: #fff3b0; }
+pre.code .ln { display: inline-block; width: 3em; color: #999; user-select: none; }
+.kw { color: #a626a4; } .str { color: #50a14f; } .num { color: #986801; } .com { color: #a0a1a7; font-style: italic; }
+`.trim();
+
+/**
+ * Renders a set of tours as a static site: an index of the tours, an overview
+ * page for each tour, and a page for each stop with the code around it. Stops
+ * that link to stops in other tours in the set become hyperlinks.
+ *
+ * @param tours Each tour file, with the tour resolved from it.
+ * @param config The repository mappings used to resolve the tours.
+ * @param options
+ */
+export async function renderSite(
+  tours: Array<{ tf: TourFile; tour: Tour }>,
+  config: RepoIndex,
+  options: SiteOptions = {},
+): Promise<SitePage[]> {
+  const context =
+    options.context === undefined ? DEFAULT_CONTEXT : options.context;
+
+  // Give each tour its own directory, even if tours share an ID. Child stops
+  // link to the first tour with the ID they name.
+  const dirs: string[] = [];
+  const dirsById = new Map<string, string>();
+  for (const { tf } of tours) {
+    const base = slug(tf.id) || "tour";
+    let dir = base;
+    for (let n = 2; dirs.includes(dir); n++) {
+      dir = `${base}-${n}`;
+    }
+    dirs.push(dir);
+    if (!dirsById.has(tf.id)) {
+      dirsById.set(tf.id, dir);
+    }
+  }
+
+  const pages: SitePage[] = [
+    {
+      path: "index.html",
+      html: page(
+        "Tours",
+        [
+          "<h1>Tours</h1>",
+          "<ul>",
+          ...tours.map(
+            ({ tf }, t) =>
+              `<li><a href="${dirs[t]}/index.html">` +
+              `${escape(tf.title)}</a></li>`,
+          ),
+          "</ul>",
+        ].join("\n"),
+      ),
+    },
+  ];
+
+  for (let t = 0; t < tours.length; t++) {
+    const { tf, tour } = tours[t];
+    const dir = dirs[t];
+    pages.push({
+      path: `${dir}/index.html`,
+      html: page(
+        tf.title,
+        [
+          `<nav><a href="../index.html">All tours</a></nav>`,
+          `<h1>${escape(tf.title)}</h1>`,
+          paragraphs(tf.description),
+          "<ol>",
+          ...tour.stops.map(
+            (stop, i) =>
+              `<li><a href="${i + 1}.html">${escape(stop.title)}</a></li>`,
+          ),
+          "</ol>",
+        ].join("\n"),
+      ),
+    });
+
+    for (let i = 0; i < tour.stops.length; i++) {
+      const stop = tour.stops[i];
+      const repository = tf.stops[i] ? tf.stops[i].repository : undefined;
+      const repoState = tf.repositories.find(
+        (st) => st.repository === repository,
+      );
+      const content = [
+        "<nav>",
+        i > 0 ? `<a href="${i}.html">&larr; Previous</a>` : "<span></span>",
+        `<a href="index.html">${escape(tf.title)}</a>`,
+        i + 1 < tour.stops.length
+          ? `<a href="${i + 2}.html">Next &rarr;</a>`
+          : "<span></span>",
+        "</nav>",
+        `<h1>${escape(stop.title)}</h1>`,
+        isNotBroken(stop)
+          ? await renderStop(
+              stop,
+              config,
+              context,
+              repoState ? repoState.commit : undefined,
+            )
+          : renderBrokenStop(stop),
+      ];
+      const children = stop.childStops.map((child) => {
+        const target = dirsById.get(child.tourId);
+        const label = escape(`Stop ${child.stopNum + 1} of ${child.tourId}`);
+        return target === undefined
+          ? `<li>${label}</li>`
+          : `<li><a href="../${target}/${child.stopNum + 1}.html">` +
+              `${label}</a></li>`;
+      });
+      if (children.length > 0) {
+        content.push("<h2>See also</h2>", "<ul>", ...children, "</ul>");
+      }
+      pages.push({
+        path: `${dir}/${i + 1}.html`,
+        html: page(`${stop.title} - ${tf.title}`, content.join("\n")),
+      });
+    }
+  }
+  return pages;
+}
+
+async function renderStop(
+  stop: AbsoluteTourStop,
+  config: RepoIndex,
+  context: number,
+  commit?: string,
+): Promise<string> {
+  const end = stop.endLine === undefined ? stop.line : stop.endLine;
+  const relPath = new AbsolutePath(stop.absPath).toRelativePath(config);
+  const where = relPath
+    ? `${relPath.repository}/${relPath.path.replace(/\\/g, "/")}`
+    : stop.absPath;
+  const lines = end === stop.line ? `${stop.line}` : `${stop.line}-${end}`;
+  const parts = [
+    `<p class="location">${escape(`${where}:${lines}`)}` +
+      (commit ? ` @ ${escape(commit)}` : "") +
+      "</p>",
+  ];
+  if (stop.partiallyBroken) {
+    parts.push(
+      `<p class="warning">Some of the lines in this stop were deleted.</p>`,
+    );
+  }
+  parts.push(paragraphs(stop.body));
+
+  let source: string;
+  try {
+    source = (await af.readFile(stop.absPath)).toString();
+  } catch (_) {
+    return parts.join("\n");
+  }
+  const highlighted = highlight(source, stop.absPath);
+  const first = Math.max(1, stop.line - context);
+  const last = Math.min(highlighted.length, end + context);
+  const code: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const target = n >= stop.line && n <= end ? " target" : "";
+    code.push(
+      `<span class="line${target}" id="L${n}">` +
+        `<span class="ln">${n}</span>${highlighted[n - 1]}</span>`,
+    );
+  }
+  parts.push(`<pre class="code"><code>${code.join("")}</code></pre>`);
+  return parts.join("\n");
+}
+
+function renderBrokenStop(stop: BrokenTourStop): string {
+  let message = `This stop could not be found (${stop.errors.join(", ")}).`;
+  if (stop.lastKnown) {
+    const { repository, relPath, line, commit } = stop.lastKnown;
+    message +=
+      ` It was last seen at ${repository}/${relPath}:${line}` +
+      ` in version ${commit}.`;
+  }
+  return `<p class="broken">${escape(message)}</p>\n${paragraphs(stop.body)}`;
+}
+
+/**
+ * Splits source code into lines of HTML, with spans marking keywords,
+ * strings, numbers and comments. Only TypeScript and JavaScript are
+ * highlighted; other files are just escaped.
+ *
+ * @param source The contents of the file.
+ * @param path The path of the file, used to work out its language.
+ */
+export function highlight(source: string, path: string): string[] {
+  const segments: Array<{ text: string; cls?: string }> = [];
+  if (hasSymbols(path)) {
+    const scanner = ts.createScanner(
+      ts.ScriptTarget.Latest,
+      false,
+      /x$/.test(path) ? ts.LanguageVariant.JSX : ts.LanguageVariant.Standard,
+      source,
+    );
+    // Where template literals were left open, so we know when a closing brace
+    // resumes one.
+    const templates: number[] = [];
+    let depth = 0;
+    let token = scanner.scan();
+    while (token !== ts.SyntaxKind.EndOfFileToken) {
+      if (token === ts.SyntaxKind.OpenBraceToken) {
+        depth++;
+      } else if (token === ts.SyntaxKind.CloseBraceToken) {
+        if (templates.length && templates[templates.length - 1] === depth) {
+          templates.pop();
+          token = scanner.reScanTemplateToken(false);
+        } else {
+          depth--;
+        }
+      }
+      if (
+        token === ts.SyntaxKind.TemplateHead ||
+        token === ts.SyntaxKind.TemplateMiddle
+      ) {
+        templates.push(depth);
+      }
+      segments.push({ text: scanner.getTokenText(), cls: classify(token) });
+      token = scanner.scan();
+    }
+  } else {
+    segments.push({ text: source });
+  }
+
+  const lines = [""];
+  for (const { text, cls } of segments) {
+    const pieces = text.split("\n");
+    pieces.forEach((piece, i) => {
+      if (i > 0) {
+        lines.push("");
+      }
+      if (piece) {
+        const html = escape(piece);
+        lines[lines.length - 1] += cls
+          ? `<span class="${cls}">${html}</span>`
+          : html;
+      }
+    });
+  }
+  return lines;
+}
+
+function classify(token: ts.SyntaxKind): string | undefined {
+  if (
+    token >= ts.SyntaxKind.FirstKeyword &&
+    token <= ts.SyntaxKind.LastKeyword
+  ) {
+    return "kw";
+  }
+  switch (token) {
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+    case ts.SyntaxKind.TemplateHead:
+    case ts.SyntaxKind.TemplateMiddle:
+    case ts.SyntaxKind.TemplateTail:
+      return "str";
+    case ts.SyntaxKind.NumericLiteral:
+    case ts.SyntaxKind.BigIntLiteral:
+      return "num";
+    case ts.SyntaxKind.SingleLineCommentTrivia:
+    case ts.SyntaxKind.MultiLineCommentTrivia:
+      return "com";
+    default:
+      return undefined;
+  }
+}
+
+function page(title: string, content: string): string {
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `<meta charset="utf-8">`,
+    `<title>${escape(title)}</title>`,
+    `<style>\n${STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    content,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/* Turns plain text into paragraphs, one per run of non-blank lines. */
+function paragraphs(text: string | undefined): string {
+  if (!text) {
+    return "";
+  }
+  return text
+    .split(/\n\s*\n/)
+    .filter((p) => p.trim())
+    .map((p) => `<p>${escape(p.trim()).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function slug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Writes the pages of a site to disk, returning the paths of the files that
+ * were written.
+ *
+ * @param pages The pages, from `renderSite`.
+ * @param outDir The directory to write the site to.
+ */
+export async function writeSite(
+  pages: SitePage[],
+  outDir: string,
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const { path, html } of pages) {
+    const file = pathutil.join(outDir, ...path.split("/"));
+    await af.mkdirp(pathutil.dirname(file));
+    await af.writeTextFile(file, html);
+    written.push(file);
+  }
+  return written;
+}
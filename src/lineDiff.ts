@@ -0,0 +1,139 @@
+import { FileChanges } from "./fileChanges";
+
+/**
+ * Computes the changes between two versions of a file, for version providers
+ * that don't have a diff tool of their own to lean on.
+ *
+ * @param before The old contents of the file, split into lines.
+ * @param after The new contents of the file, split into lines.
+ * @param name The name of the file in the new version.
+ */
+export function diffLines(
+  before: string[],
+  after: string[],
+  name: string,
+): FileChanges {
+  const moves = new Map<number, number>();
+  const additions = [] as number[];
+  const deletions = [] as number[];
+
+  let i = 0;
+  let j = 0;
+  for (const [x, y] of commonLines(before, after)) {
+    for (; i < x; i++) {
+      deletions.push(i + 1);
+    }
+    for (; j < y; j++) {
+      additions.push(j + 1);
+    }
+    moves.set(x + 1, y + 1);
+    i++;
+    j++;
+  }
+  for (; i < before.length; i++) {
+    deletions.push(i + 1);
+  }
+  for (; j < after.length; j++) {
+    additions.push(j + 1);
+  }
+
+  return new FileChanges(additions, deletions, moves, name);
+}
+
+/* Finds a longest common subsequence of lines, using Myers' algorithm, and
+ * returns the (0-indexed) pairs of lines that it matches up, in order.
+ */
+function commonLines(a: string[], b: string[]): Array<[number, number]> {
+  // Lines shared at the start and end are matched up front, which keeps the
+  // search below small for the usual case of a few edits in a big file.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let k = 0; k < start; k++) {
+    pairs.push([k, k]);
+  }
+  pairs.push(
+    ...shortestEdit(a.slice(start, endA), b.slice(start, endB), start),
+  );
+  for (let k = 0; k < a.length - endA; k++) {
+    pairs.push([endA + k, endB + k]);
+  }
+  return pairs;
+}
+
+function shortestEdit(
+  a: string[],
+  b: string[],
+  offset: number,
+): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (n === 0 || m === 0) {
+    return [];
+  }
+
+  // v[k + max] is the furthest x reached on diagonal k. We keep a copy of v
+  // for every step so the path can be traced back once we reach the end.
+  const v: number[] = [];
+  for (let k = 0; k <= 2 * max + 1; k++) {
+    v.push(0);
+  }
+  const trace: number[][] = [];
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + max] < v[k + 1 + max])
+          ? v[k + 1 + max]
+          : v[k - 1 + max] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + max] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = n;
+  let j = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = i - j;
+    const prevK =
+      k === -d || (k !== d && prev[k - 1 + max] < prev[k + 1 + max])
+        ? k + 1
+        : k - 1;
+    const prevI = prev[prevK + max];
+    const prevJ = prevI - prevK;
+    while (i > prevI && j > prevJ) {
+      i--;
+      j--;
+      pairs.push([i + offset, j + offset]);
+    }
+    i = prevI;
+    j = prevJ;
+  }
+  while (i > 0 && j > 0) {
+    i--;
+    j--;
+    pairs.push([i + offset, j + offset]);
+  }
+  return pairs.reverse();
+}
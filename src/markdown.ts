@@ -0,0 +1,143 @@
+import * as af from "async-file";
+import * as pathutil from "path";
+import { AbsolutePath } from "./paths";
+import {
+  AbsoluteTourStop,
+  BrokenTourStop,
+  isNotBroken,
+  RepoIndex,
+  Tour,
+  TourFile,
+} from "./types";
+
+export interface MarkdownOptions {
+  /* Number of lines of source shown on either side of each stop. */
+  context?: number;
+}
+
+const DEFAULT_CONTEXT = 3;
+
+/* Languages for fenced code blocks, by file extension. Anything not listed
+ * uses the extension itself.
+ */
+const LANGUAGES: { [ext: string]: string } = {
+  cjs: "javascript",
+  h: "c",
+  hpp: "cpp",
+  js: "javascript",
+  jsx: "jsx",
+  md: "markdown",
+  mjs: "javascript",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  sh: "bash",
+  ts: "typescript",
+  tsx: "tsx",
+  yml: "yaml",
+};
+
+/**
+ * Renders a tour as a Markdown document: the title and description, followed
+ * by each stop with its location, its body, and an excerpt of the source it
+ * points to. Broken stops are called out, along with where they were last
+ * seen.
+ *
+ * @param tf The tour file.
+ * @param tour The tour, as resolved from `tf`.
+ * @param config The repository mappings used to resolve the tour.
+ * @param options
+ */
+export async function renderMarkdown(
+  tf: TourFile,
+  tour: Tour,
+  config: RepoIndex,
+  options: MarkdownOptions = {},
+): Promise<string> {
+  const context =
+    options.context === undefined ? DEFAULT_CONTEXT : options.context;
+  const sections = [`# ${tf.title}`];
+  if (tf.description) {
+    sections.push(tf.description);
+  }
+  for (let i = 0; i < tour.stops.length; i++) {
+    const stop = tour.stops[i];
+    sections.push(`## ${i + 1}. ${stop.title}`);
+    if (isNotBroken(stop)) {
+      sections.push(...(await renderStop(stop, config, context)));
+    } else {
+      sections.push(renderBrokenStop(stop));
+    }
+    if (stop.childStops.length > 0) {
+      sections.push(
+        stop.childStops
+          .map((child) => `- See stop ${child.stopNum + 1} of ${child.tourId}`)
+          .join("\n"),
+      );
+    }
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+async function renderStop(
+  stop: AbsoluteTourStop,
+  config: RepoIndex,
+  context: number,
+): Promise<string[]> {
+  const end = stop.endLine === undefined ? stop.line : stop.endLine;
+  const relPath = new AbsolutePath(stop.absPath).toRelativePath(config);
+  const where = relPath
+    ? `${relPath.repository}/${relPath.path.replace(/\\/g, "/")}`
+    : stop.absPath;
+  const lines = end === stop.line ? `${stop.line}` : `${stop.line}-${end}`;
+
+  const parts = [`\`${where}:${lines}\``];
+  if (stop.partiallyBroken) {
+    parts.push("> **Warning:** some of the lines in this stop were deleted.");
+  }
+  if (stop.body) {
+    parts.push(stop.body);
+  }
+
+  let source: string[];
+  try {
+    source = (await af.readFile(stop.absPath)).toString().split("\n");
+  } catch (_) {
+    return parts;
+  }
+  const excerpt = source.slice(
+    Math.max(0, stop.line - 1 - context),
+    Math.min(source.length, end + context),
+  );
+  parts.push(fence(excerpt.join("\n"), languageOf(stop.absPath)));
+  return parts;
+}
+
+function renderBrokenStop(stop: BrokenTourStop): string {
+  let message =
+    "> **Broken stop:** this stop could not be found " +
+    `(${stop.errors.join(", ")}).`;
+  if (stop.lastKnown) {
+    const { repository, relPath, line, commit } = stop.lastKnown;
+    message +=
+      ` It was last seen at \`${repository}/${relPath}:${line}\`` +
+      ` in version \`${commit}\`.`;
+  }
+  return stop.body ? `${message}\n\n${stop.body}` : message;
+}
+
+/* Wraps `code` in a fence longer than any run of backticks inside it. */
+function fence(code: string, language: string): string {
+  const runs = code.match(/`+/g) || [];
+  const longest = runs.reduce((max, run) => Math.max(max, run.length), 0);
+  const marks = "`".repeat(Math.max(3, longest + 1));
+  return `${marks}${language}\n${code}\n${marks}`;
+}
+
+function languageOf(path: string): string {
+  const ext = pathutil
+    .extname(path)
+    .slice(1)
+    .toLowerCase();
+  return LANGUAGES[ext] || ext;
+}
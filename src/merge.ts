@@ -0,0 +1,417 @@
+import { RepoState, TourFile, TourStop } from "./types";
+
+/* Three-way merging of tour files, for when the same tour has been edited on
+ * two branches. Stops are matched up by ID, and merged field by field.
+ */
+
+/* The fields of a stop that say where it is. They only make sense together,
+ * and relative to the commit that its repository is at.
+ */
+const LOCATION_FIELDS = [
+  "repository",
+  "relPath",
+  "line",
+  "endLine",
+  "column",
+  "endColumn",
+  "anchor",
+  "symbol",
+  "lastKnown",
+];
+
+/**
+ * A change that was made differently on both sides. The merged tour file keeps
+ * our side of it. `field` is the field of the tour file, stop or repository
+ * that conflicts; it is `"stop"` when one side deleted a stop that the other
+ * changed, `"location"` for a stop's location, and `"order"` for the order of
+ * the stops. Absent values are `undefined`.
+ */
+export interface MergeConflict {
+  field: string;
+  stopId?: string;
+  repository?: string;
+  base: any;
+  ours: any;
+  theirs: any;
+}
+
+export interface MergeResult {
+  tourFile: TourFile;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Merges two versions of a tour file that were both made from `base`.
+ *
+ * Edits, additions, deletions and reorders made on either side are combined.
+ * Stops added on both sides with the same ID are given new IDs on their side,
+ * so that none are lost. Each repository is kept at the commit of whichever
+ * side moved it on from `base`; changes to stop locations that were made
+ * against the other commit are reported as conflicts. Anything changed in
+ * different ways on both sides is reported in `conflicts`, with our side kept.
+ *
+ * @param base The common ancestor.
+ * @param ours Our version, whose side is kept when there are conflicts.
+ * @param theirs Their version.
+ */
+export function mergeTourFiles(
+  base: TourFile,
+  ours: TourFile,
+  theirs: TourFile,
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  // Tour fields
+  const merged: any = {};
+  const fields = keysOf(base, ours, theirs).filter(
+    (key) => !["stops", "repositories", "generator"].includes(key),
+  );
+  for (const field of fields) {
+    const value = merge3(
+      (base as any)[field],
+      (ours as any)[field],
+      (theirs as any)[field],
+      (b, o, t) => conflicts.push({ field, base: b, ours: o, theirs: t }),
+    );
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+  const tf: TourFile = merged;
+  let generator = Math.max(
+    base.generator || 0,
+    ours.generator || 0,
+    theirs.generator || 0,
+  );
+
+  // Stops added on both sides under the same ID are different stops
+  const baseStops = byId(base.stops);
+  const ourStops = byId(ours.stops);
+  const theirStops = new Map<string, TourStop>();
+  const theirOrder: string[] = [];
+  for (const stop of theirs.stops) {
+    let id = stop.id;
+    const collides =
+      !baseStops.has(id) && ourStops.has(id) && !same(ourStops.get(id), stop);
+    if (collides || theirStops.has(id)) {
+      do {
+        id = `${tf.id}:${generator++}`;
+      } while (ourStops.has(id) || baseStops.has(id) || theirStops.has(id));
+    }
+    theirStops.set(id, { ...stop, id });
+    theirOrder.push(id);
+  }
+
+  // Repositories
+  const repositories = new Map<string, RepoState>();
+  const baseRepos = byRepository(base.repositories);
+  const ourRepos = byRepository(ours.repositories);
+  const theirRepos = byRepository(theirs.repositories);
+  /* Which side's locations are relative to the merged commit: both, or only
+   * one of them.
+   */
+  const current = new Map<string, "both" | "ours" | "theirs">();
+  for (const repository of union(
+    Array.from(baseRepos.keys()),
+    Array.from(ourRepos.keys()),
+    Array.from(theirRepos.keys()),
+  )) {
+    const b = baseRepos.get(repository);
+    const o = ourRepos.get(repository);
+    const t = theirRepos.get(repository);
+    if (o && t) {
+      if (!same(o, t)) {
+        if (b && same(o, b)) {
+          repositories.set(repository, t);
+          current.set(repository, "theirs");
+          continue;
+        }
+        if (!b || !same(t, b)) {
+          conflicts.push({
+            field: "commit",
+            repository,
+            base: b && b.commit,
+            ours: o.commit,
+            theirs: t.commit,
+          });
+        }
+        repositories.set(repository, o);
+        current.set(repository, "ours");
+        continue;
+      }
+    }
+    repositories.set(repository, (o || t)!);
+    current.set(repository, o && t ? "both" : o ? "ours" : "theirs");
+  }
+
+  // Stops
+  const stops = new Map<string, TourStop>();
+  for (const id of union(
+    Array.from(baseStops.keys()),
+    Array.from(ourStops.keys()),
+    Array.from(theirStops.keys()),
+  )) {
+    const b = baseStops.get(id);
+    const o = ourStops.get(id);
+    const t = theirStops.get(id);
+    if (!o || !t) {
+      const kept = o || t;
+      if (!kept) {
+        continue;
+      }
+      if (b && !same(kept, b)) {
+        // Deleted on one side, changed on the other
+        conflicts.push({
+          field: "stop",
+          stopId: id,
+          base: b,
+          ours: o,
+          theirs: t,
+        });
+      } else if (b) {
+        continue;
+      }
+      stops.set(id, kept);
+      checkLocation(id, b, o, t, kept, current, conflicts);
+      continue;
+    }
+    stops.set(id, mergeStop(id, b, o, t, current, conflicts));
+  }
+
+  // Order
+  const order = mergeOrder(
+    base.stops.map((stop) => stop.id),
+    ours.stops.map((stop) => stop.id),
+    theirOrder,
+    conflicts,
+  ).filter((id) => stops.has(id));
+  tf.stops = order.map((id) => stops.get(id)!);
+
+  const used = new Set(tf.stops.map((stop) => stop.repository));
+  tf.repositories = Array.from(repositories.values()).filter((repo) =>
+    used.has(repo.repository),
+  );
+  if (generator > 0) {
+    tf.generator = generator;
+  }
+  return { tourFile: tf, conflicts };
+}
+
+function mergeStop(
+  id: string,
+  b: TourStop | undefined,
+  o: TourStop,
+  t: TourStop,
+  current: Map<string, "both" | "ours" | "theirs">,
+  conflicts: MergeConflict[],
+): TourStop {
+  const merged: any = {};
+  const conflict = (field: string) => (x: any, y: any, z: any) =>
+    conflicts.push({ field, stopId: id, base: x, ours: y, theirs: z });
+
+  const others = keysOf(b || {}, o, t).filter(
+    (key) => !LOCATION_FIELDS.includes(key) && key !== "childStops",
+  );
+  for (const field of others) {
+    const value = merge3(
+      b && (b as any)[field],
+      (o as any)[field],
+      (t as any)[field],
+      conflict(field),
+    );
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+  merged.childStops = mergeList(
+    b ? b.childStops : [],
+    o.childStops,
+    t.childStops,
+  );
+
+  // Locations are only comparable when both sides are at the same commit
+  const side = current.get(o.repository === t.repository ? o.repository : "");
+  let location: any;
+  if (side === "theirs") {
+    location = locationOf(t);
+    if (b && !same(locationOf(o), locationOf(b))) {
+      conflict("location")(locationOf(b), locationOf(o), location);
+    }
+  } else if (side === "ours") {
+    location = locationOf(o);
+    if (b && !same(locationOf(t), locationOf(b))) {
+      conflict("location")(locationOf(b), location, locationOf(t));
+    }
+  } else {
+    location = merge3(
+      b && locationOf(b),
+      locationOf(o),
+      locationOf(t),
+      conflict("location"),
+    );
+  }
+  return { ...merged, ...location };
+}
+
+/* Reports a stop that only one side has, if its location was set against a
+ * different commit than the one its repository ends up at.
+ */
+function checkLocation(
+  id: string,
+  b: TourStop | undefined,
+  o: TourStop | undefined,
+  t: TourStop | undefined,
+  kept: TourStop,
+  current: Map<string, "both" | "ours" | "theirs">,
+  conflicts: MergeConflict[],
+) {
+  const side = current.get(kept.repository);
+  const ourSide = kept === o;
+  if (side === "both" || side === (ourSide ? "ours" : "theirs")) {
+    return;
+  }
+  if (b && same(locationOf(kept), locationOf(b))) {
+    return;
+  }
+  conflicts.push({
+    field: "location",
+    stopId: id,
+    base: b && locationOf(b),
+    ours: o && locationOf(o),
+    theirs: t && locationOf(t),
+  });
+}
+
+/* Combines the orders of the stops on each side. If only one side reordered
+ * the stops it had in common with the other, its order is used; stops that
+ * only the other side has are placed after the stop they follow there. Stops
+ * that don't make it into the merge are filtered out afterwards.
+ */
+function mergeOrder(
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  conflicts: MergeConflict[],
+): string[] {
+  const inAll = (list: string[]) =>
+    list.filter(
+      (id) => base.includes(id) && ours.includes(id) && theirs.includes(id),
+    );
+  const b = inAll(base);
+  const o = inAll(ours);
+  const t = inAll(theirs);
+
+  let primary = ours;
+  let secondary = theirs;
+  if (same(o, b) && !same(t, b)) {
+    primary = theirs;
+    secondary = ours;
+  } else if (!same(o, b) && !same(t, b) && !same(o, t)) {
+    conflicts.push({ field: "order", base, ours, theirs });
+  }
+
+  const result = primary.slice();
+  secondary.forEach((id, i) => {
+    if (result.includes(id)) {
+      return;
+    }
+    let at = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const before = result.indexOf(secondary[j]);
+      if (before >= 0) {
+        at = before + 1;
+        break;
+      }
+    }
+    result.splice(at, 0, id);
+  });
+  return result;
+}
+
+/* Merges a single value: a side that changed it wins over one that didn't. */
+function merge3(
+  b: any,
+  o: any,
+  t: any,
+  onConflict: (b: any, o: any, t: any) => void,
+): any {
+  if (same(o, t) || same(t, b)) {
+    return o;
+  }
+  if (same(o, b)) {
+    return t;
+  }
+  onConflict(b, o, t);
+  return o;
+}
+
+/* Merges lists as sets: items added on either side are kept, and items
+ * removed on either side are dropped.
+ */
+function mergeList<T>(b: T[], o: T[], t: T[]): T[] {
+  const has = (list: T[], item: T) => list.some((x) => same(x, item));
+  const result = o.filter((item) => !has(b, item) || has(t, item));
+  for (const item of t) {
+    if (!has(b, item) && !has(result, item)) {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+function locationOf(stop: TourStop): { [field: string]: any } {
+  const location: { [field: string]: any } = {};
+  for (const field of LOCATION_FIELDS) {
+    if ((stop as any)[field] !== undefined) {
+      location[field] = (stop as any)[field];
+    }
+  }
+  return location;
+}
+
+function keysOf(...objs: object[]): string[] {
+  return union(...objs.map((obj) => Object.keys(obj)));
+}
+
+/* The items in any of the lists, in the order they're first seen. */
+function union(...lists: string[][]): string[] {
+  const result: string[] = [];
+  for (const list of lists) {
+    for (const item of list) {
+      if (!result.includes(item)) {
+        result.push(item);
+      }
+    }
+  }
+  return result;
+}
+
+function byId(stops: TourStop[]): Map<string, TourStop> {
+  return new Map(stops.map((stop): [string, TourStop] => [stop.id, stop]));
+}
+
+function byRepository(repos: RepoState[]): Map<string, RepoState> {
+  return new Map(
+    repos.map((repo): [string, RepoState] => [repo.repository, repo]),
+  );
+}
+
+/* Compares values by content, ignoring the order of object keys. */
+function same(a: any, b: any): boolean {
+  return canonical(a) === canonical(b);
+}
+
+function canonical(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const keys = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort();
+    return `{${keys
+      .map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`)
+      .join(",")}}`;
+  }
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
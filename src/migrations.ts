@@ -0,0 +1,143 @@
+import { TourFile, TouristError, validateTourFile } from "./types";
+
+/* The protocol version written by this version of Tourist. */
+export const CURRENT_PROTOCOL = "1.0";
+
+/* The protocol version assumed for files that don't say which they use. */
+const LEGACY_PROTOCOL = "0";
+
+/**
+ * Upgrades a tour file from one protocol version to the next. `validate` lists
+ * anything that would stop `upgrade` from turning an object in the `from`
+ * version into one in the `to` version. The result of the last upgrade is
+ * checked in full by `validateTourFile`.
+ */
+interface Migration {
+  from: string;
+  to: string;
+  name: string;
+  validate: (obj: any) => string[];
+  upgrade: (obj: any) => any;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: LEGACY_PROTOCOL,
+    to: "1.0",
+    name: "Add tour and stop IDs, and child stops",
+    validate: (obj) => [
+      ...(typeof obj.title === "string" ? [] : ["title must be a string"]),
+      ...(Array.isArray(obj.stops)
+        ? stopsThatArentObjects(obj.stops)
+        : ["stops must be an array"]),
+      ...(Array.isArray(obj.repositories)
+        ? []
+        : ["repositories must be an array"]),
+    ],
+    upgrade: (obj) => {
+      const id = typeof obj.id === "string" ? obj.id : obj.title;
+      let generator = typeof obj.generator === "number" ? obj.generator : 0;
+      const stops = obj.stops.map((stop: any) => ({
+        ...stop,
+        id: typeof stop.id === "string" ? stop.id : `${id}:${generator++}`,
+        childStops: stop.childStops || [],
+      }));
+      return {
+        ...obj,
+        protocolVersion: "1.0",
+        id,
+        generator,
+        stops,
+        description: obj.description || "",
+        version: typeof obj.version === "string" ? obj.version : "0.10.0",
+      };
+    },
+  },
+];
+
+/**
+ * The result of bringing a tour file up to date. `migrations` names each
+ * migration that was applied, in order.
+ */
+export interface MigrationResult {
+  tourFile: TourFile;
+  migrations: string[];
+}
+
+/**
+ * Upgrades a parsed tour file, one protocol version at a time, until it uses
+ * `CURRENT_PROTOCOL`.
+ *
+ * @param obj The parsed tour file.
+ * @throws Error code(s): 401, 402
+ *  See the error-handling.md document for more information.
+ */
+export function migrate(obj: any): MigrationResult {
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    throw invalid(["tour file must be an object"]);
+  }
+
+  const migrations: string[] = [];
+  let version =
+    obj.protocolVersion === undefined ? LEGACY_PROTOCOL : obj.protocolVersion;
+  while (version !== CURRENT_PROTOCOL) {
+    if (typeof version === "string" && isNewer(version, CURRENT_PROTOCOL)) {
+      throw new TouristError(
+        402,
+        `Tour file uses protocol version ${version}, but only versions up to ` +
+          `${CURRENT_PROTOCOL} are supported.`,
+      );
+    }
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw invalid([`protocolVersion ${JSON.stringify(version)} is unknown`]);
+    }
+    const problems = migration.validate(obj);
+    if (problems.length > 0) {
+      throw invalid(problems);
+    }
+    obj = migration.upgrade(obj);
+    migrations.push(migration.name);
+    version = migration.to;
+  }
+
+  const remaining = validateTourFile(obj);
+  if (remaining.length > 0) {
+    throw invalid(remaining);
+  }
+  return { tourFile: obj, migrations };
+}
+
+/* `upgrade` fills in each stop's ID, so each stop must be an object. */
+function stopsThatArentObjects(stops: any[]): string[] {
+  const problems: string[] = [];
+  stops.forEach((stop, i) => {
+    if (typeof stop !== "object" || stop === null || Array.isArray(stop)) {
+      problems.push(`stops[${i}] must be an object`);
+    }
+  });
+  return problems;
+}
+
+function invalid(problems: string[]): TouristError {
+  const error = new TouristError(
+    401,
+    `Object is not a valid TourFile. ${problems.join("; ")}.`,
+  );
+  error.problems = problems;
+  return error;
+}
+
+/* Compares dotted version numbers, such as "1.0" and "1.10". */
+function isNewer(version: string, than: string): boolean {
+  const a = version.split(".").map(Number);
+  const b = than.split(".").map(Number);
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i] || 0;
+    const y = b[i] || 0;
+    if (x !== y) {
+      return x > y;
+    }
+  }
+  return false;
+}
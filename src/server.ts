@@ -0,0 +1,454 @@
+import * as af from "async-file";
+import * as pathutil from "path";
+import * as readline from "readline";
+import { Tourist } from "./tourist";
+import {
+  TourFile,
+  TouristError,
+  validateAbsoluteTourStop,
+  validateTourStopPos,
+} from "./types";
+
+/* A JSON-RPC 2.0 server for Tourist, for editors that can't load the library
+ * themselves. Requests and responses are JSON objects, one per line.
+ *
+ * Tour files live in the server between requests. Opening or creating one
+ * returns a handle, `tour`, that later requests use in place of the tour file
+ * itself; everything else takes the same parameters as the `Tourist` method of
+ * the same name, by name.
+ */
+
+/* Error codes defined by JSON-RPC. */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/* Error codes of the server's own. A `TouristError` is reported with its own
+ * code, which never clashes with these.
+ */
+const NO_SUCH_TOUR = -32001;
+const FILE_ERROR = -32002;
+
+class RpcError extends Error {
+  public code: number;
+  public data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    Object.setPrototypeOf(this, RpcError.prototype);
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface OpenTour {
+  tf: TourFile;
+  /* Where the tour file is saved, if anywhere. */
+  path?: string;
+}
+
+interface Params {
+  [name: string]: any;
+}
+
+type Method = (server: TouristServer, params: Params) => Promise<any>;
+
+const METHODS: { [name: string]: Method } = {
+  open: async (server, params) => {
+    const path = pathutil.resolve(param(params, "path", "string"));
+    let json: string;
+    try {
+      json = await af.readTextFile(path);
+    } catch (_) {
+      throw new RpcError(FILE_ERROR, `Could not read ${path}.`);
+    }
+    return server.open(server.tourist.deserializeTourFile(json), path);
+  },
+  save: async (server, params) => {
+    const handle = param(params, "tour", "string");
+    const open = server.get(handle);
+    const path = params.path
+      ? pathutil.resolve(param(params, "path", "string"))
+      : open.path;
+    if (path === undefined) {
+      throw new RpcError(INVALID_PARAMS, `Tour ${handle} has no path.`);
+    }
+    try {
+      await af.writeTextFile(path, server.tourist.serializeTourFile(open.tf));
+    } catch (_) {
+      throw new RpcError(FILE_ERROR, `Could not write ${path}.`);
+    }
+    open.path = path;
+    return { path };
+  },
+  close: async (server, params) => {
+    server.close(param(params, "tour", "string"));
+    return null;
+  },
+  tourFile: async (server, params) => tourFile(server, params),
+
+  init: async (server, params) =>
+    server.open(
+      await server.tourist.init(
+        param(params, "title", "string", true),
+        param(params, "description", "string", true),
+      ),
+    ),
+  rename: async (server, params) =>
+    server.tourist.rename(
+      tourFile(server, params),
+      param(params, "name", "string"),
+    ),
+  editDescription: async (server, params) =>
+    server.tourist.editDescription(
+      tourFile(server, params),
+      param(params, "description", "string"),
+    ),
+  add: async (server, params) =>
+    server.tourist.add(
+      tourFile(server, params),
+      checked(params, "stop", validateAbsoluteTourStop),
+      nullable(param(params, "index", "number", true)),
+      nullable(param(params, "id", "string", true)),
+    ),
+  remove: async (server, params) =>
+    server.tourist.remove(
+      tourFile(server, params),
+      param(params, "stopId", "string"),
+    ),
+  edit: async (server, params) =>
+    server.tourist.edit(
+      tourFile(server, params),
+      param(params, "stopId", "string"),
+      param(params, "stopEdit", "object"),
+    ),
+  move: async (server, params) =>
+    server.tourist.move(
+      tourFile(server, params),
+      param(params, "stopId", "string"),
+      checked(params, "stopPos", validateTourStopPos),
+    ),
+  link: async (server, params) =>
+    server.tourist.link(
+      tourFile(server, params),
+      param(params, "stopId", "string"),
+      param(params, "childStop", "object"),
+    ),
+  reorder: async (server, params) =>
+    server.tourist.reorder(
+      tourFile(server, params),
+      param(params, "stopId", "string"),
+      param(params, "newIndex", "number"),
+    ),
+  undo: async (server, params) => server.tourist.undo(tourFile(server, params)),
+  redo: async (server, params) => server.tourist.redo(tourFile(server, params)),
+  resolve: async (server, params) =>
+    server.tourist.resolve(tourFile(server, params)),
+  refresh: async (server, params) =>
+    server.tourist.refresh(
+      tourFile(server, params),
+      param(params, "repository", "string"),
+      param(params, "target", "string", true),
+    ),
+  refreshAll: async (server, params) =>
+    server.tourist.refreshAll(
+      tourFile(server, params),
+      param(params, "targets", "object", true),
+    ),
+  previewRefresh: async (server, params) =>
+    server.tourist.previewRefresh(
+      tourFile(server, params),
+      param(params, "repository", "string"),
+      param(params, "target", "string", true),
+    ),
+  exportMarkdown: async (server, params) =>
+    server.tourist.exportMarkdown(
+      tourFile(server, params),
+      param(params, "options", "object", true),
+    ),
+  exportSite: async (server, params) => {
+    const handles = param(params, "tours", "object");
+    if (!Array.isArray(handles)) {
+      throw new RpcError(INVALID_PARAMS, "tours must be an array.");
+    }
+    return server.tourist.exportSite(
+      handles.map((handle) => server.get(handle).tf),
+      param(params, "outDir", "string"),
+      param(params, "options", "object", true),
+    );
+  },
+  checkTour: async (server, params) => {
+    const handles = param(params, "tours", "object", true) || [];
+    if (!Array.isArray(handles)) {
+      throw new RpcError(INVALID_PARAMS, "tours must be an array.");
+    }
+    return server.tourist.checkTour(
+      tourFile(server, params),
+      handles.map((handle) => server.get(handle).tf),
+    );
+  },
+  exportCodeTour: async (server, params) =>
+    server.tourist.exportCodeTour(tourFile(server, params)),
+  importCodeTour: async (server, params) => {
+    const { tourFile: tf, skipped } = await server.tourist.importCodeTour(
+      param(params, "json", "string"),
+      param(params, "repository", "string"),
+      param(params, "trackSymbols", "boolean", true),
+    );
+    return { ...server.open(tf), skipped };
+  },
+  serializeTourFile: async (server, params) =>
+    server.tourist.serializeTourFile(tourFile(server, params)),
+  deserializeTourFile: async (server, params) =>
+    server.open(
+      server.tourist.deserializeTourFile(param(params, "json", "string")),
+    ),
+  migrateTourFile: async (server, params) => {
+    const { tourFile: tf, migrations } = server.tourist.migrateTourFile(
+      param(params, "json", "string"),
+    );
+    return { ...server.open(tf), migrations };
+  },
+
+  mapConfig: async (server, params) =>
+    server.tourist.mapConfig(
+      param(params, "repo", "string"),
+      param(params, "path", "string"),
+    ),
+  unmapConfig: async (server, params) =>
+    server.tourist.unmapConfig(param(params, "repo", "string")),
+  dumpConfig: async (server) => ({ ...server.tourist.config }),
+  serialize: async (server) => server.tourist.serialize(),
+  deserialize: async (server, params) => {
+    // Swap in the new mappings, keeping any providers that were registered
+    const { config } = Tourist.deserialize(param(params, "json", "string"));
+    for (const repo of Object.keys(server.tourist.config)) {
+      server.tourist.unmapConfig(repo);
+    }
+    Object.assign(server.tourist.config, config);
+    return null;
+  },
+};
+
+/**
+ * Answers JSON-RPC requests by calling a `Tourist`, keeping the tour files that
+ * are open in memory.
+ */
+export class TouristServer {
+  public readonly tourist: Tourist;
+  private tours: Map<string, OpenTour>;
+  private untitled: number;
+
+  constructor(tourist: Tourist = new Tourist()) {
+    this.tourist = tourist;
+    this.tours = new Map();
+    this.untitled = 0;
+  }
+
+  /**
+   * Handles one line of input, which holds either a request or a batch of
+   * them, returning the line to respond with, or `null` if there is nothing
+   * to say (only notifications were sent).
+   *
+   * @param line The JSON-encoded request.
+   */
+  public async handle(line: string): Promise<string | null> {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (_) {
+      return JSON.stringify(
+        failure(null, new RpcError(PARSE_ERROR, "Parse error.")),
+      );
+    }
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return JSON.stringify(
+          failure(null, new RpcError(INVALID_REQUEST, "Empty batch.")),
+        );
+      }
+      const responses = [];
+      for (const request of message) {
+        const response = await this.call(request);
+        if (response) {
+          responses.push(response);
+        }
+      }
+      return responses.length > 0 ? JSON.stringify(responses) : null;
+    }
+    const single = await this.call(message);
+    return single ? JSON.stringify(single) : null;
+  }
+
+  /**
+   * Serves requests from `input`, one per line, writing responses to `output`,
+   * until `input` ends. Requests are handled one at a time, in order.
+   */
+  public listen(
+    input: NodeJS.ReadableStream,
+    output: NodeJS.WritableStream,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const lines = readline.createInterface({ input, terminal: false });
+      let queue = Promise.resolve();
+      lines.on("line", (line) => {
+        if (!line.trim()) {
+          return;
+        }
+        queue = queue.then(async () => {
+          const response = await this.handle(line);
+          if (response !== null) {
+            output.write(response + "\n");
+          }
+        });
+      });
+      lines.on("close", () => queue.then(() => resolve()));
+    });
+  }
+
+  /* Keeps a tour file open, returning its handle along with it. */
+  public open(
+    tf: TourFile,
+    path?: string,
+  ): { tour: string; tourFile: TourFile } {
+    let handle = path;
+    if (handle === undefined) {
+      this.untitled++;
+      handle = `untitled:${this.untitled}`;
+    }
+    this.tours.set(handle, { tf, path });
+    return { tour: handle, tourFile: tf };
+  }
+
+  public get(handle: string): OpenTour {
+    const open = this.tours.get(handle);
+    if (!open) {
+      throw new RpcError(NO_SUCH_TOUR, `No open tour ${handle}.`);
+    }
+    return open;
+  }
+
+  public close(handle: string) {
+    this.get(handle);
+    this.tours.delete(handle);
+  }
+
+  private async call(request: any): Promise<object | null> {
+    const id =
+      request !== null && typeof request === "object" ? request.id : undefined;
+    const respond = id !== undefined;
+    if (
+      request === null ||
+      typeof request !== "object" ||
+      request.jsonrpc !== "2.0" ||
+      typeof request.method !== "string"
+    ) {
+      return failure(
+        id === undefined ? null : id,
+        new RpcError(INVALID_REQUEST, "Invalid request."),
+      );
+    }
+
+    try {
+      const method = METHODS.hasOwnProperty(request.method)
+        ? METHODS[request.method]
+        : undefined;
+      if (!method) {
+        throw new RpcError(
+          METHOD_NOT_FOUND,
+          `Method ${request.method} not found.`,
+        );
+      }
+      const params = request.params === undefined ? {} : request.params;
+      if (typeof params !== "object" || params === null) {
+        throw new RpcError(INVALID_PARAMS, "Params must be an object.");
+      }
+      const result = await method(this, params);
+      return respond
+        ? { jsonrpc: "2.0", id, result: result === undefined ? null : result }
+        : null;
+    } catch (e) {
+      return respond ? failure(id, e) : null;
+    }
+  }
+}
+
+function failure(id: any, e: Error): object {
+  let error: { code: number; message: string; data?: any };
+  if (e instanceof RpcError) {
+    error = { code: e.code, message: e.message, data: e.data };
+  } else if (e instanceof TouristError) {
+    error = { code: e.code, message: e.message, data: describe(e) };
+  } else {
+    error = { code: INTERNAL_ERROR, message: e.message };
+  }
+  if (error.data === undefined) {
+    delete error.data;
+  }
+  return { jsonrpc: "2.0", id, error };
+}
+
+/* The details of a `TouristError`, beyond its code and message. */
+function describe(e: TouristError): object {
+  return {
+    repository: e.repoName,
+    problems: e.problems,
+    causes: e.causes
+      ? e.causes.map((cause) => ({
+          code: cause.code,
+          message: cause.message,
+          ...describe(cause),
+        }))
+      : undefined,
+  };
+}
+
+/* The tour file named by the `tour` parameter. */
+function tourFile(server: TouristServer, params: Params): TourFile {
+  return server.get(param(params, "tour", "string")).tf;
+}
+
+function param(
+  params: Params,
+  name: string,
+  type: "string" | "number" | "boolean" | "object",
+  optional: boolean = false,
+): any {
+  const value = params[name];
+  if (value === undefined || value === null) {
+    if (optional) {
+      return undefined;
+    }
+    throw new RpcError(INVALID_PARAMS, `Missing param ${name}.`);
+  }
+  if (typeof value !== type) {
+    throw new RpcError(INVALID_PARAMS, `Param ${name} must be a ${type}.`);
+  }
+  return value;
+}
+
+/* A param that `validate` finds no problems with. The problems are listed in
+ * the error's data otherwise.
+ */
+function checked(
+  params: Params,
+  name: string,
+  validate: (obj: any) => string[],
+): any {
+  const problems = validate(params[name]);
+  if (problems.length > 0) {
+    throw new RpcError(
+      INVALID_PARAMS,
+      `Param ${name} is invalid. ${problems.join("; ")}.`,
+      { problems },
+    );
+  }
+  return params[name];
+}
+
+/* Turns a missing optional param into the `null` that some methods expect. */
+function nullable<T>(value: T | undefined): T | null {
+  return value === undefined ? null : value;
+}
@@ -0,0 +1,366 @@
+import * as af from "async-file";
+import crypto from "crypto";
+import os from "os";
+import * as pathutil from "path";
+import { AbsolutePath, RelativePath } from "./paths";
+import { FileChanges } from "./fileChanges";
+import { DiffCache, DiffCacheKey, WORKING_COPY } from "./diffCache";
+import { diffLines } from "./lineDiff";
+import { VersionProvider } from "./versionProvider";
+
+/* Maps the path of each file in a snapshot to the hash of its contents. */
+interface Manifest {
+  [path: string]: string;
+}
+
+/* The last scan of a directory. `stats` holds the size and modification time
+ * of each file when it was hashed, so that unchanged files aren't hashed again.
+ */
+interface Scan {
+  version: string;
+  manifest: Manifest;
+  stats: { [path: string]: string };
+  started: number;
+}
+
+/* Files modified this close (in milliseconds) to the start of a scan could
+ * change again without their modification time changing, given how coarse
+ * some file systems' times are, so they are always hashed again.
+ */
+const RACY_WINDOW = 2000;
+
+/* Directories that belong to a version control system. A directory containing
+ * one of these is left to that system's provider, and they are never hashed.
+ */
+const VCS_DIRS = [".git", ".hg", ".svn"];
+
+/**
+ * Versions a plain directory (one that isn't under version control) by the
+ * contents of its files.
+ *
+ * A version is the hash of the directory's manifest, so identical directories
+ * share versions. Working out the current version only hashes the directory;
+ * its files are copied into the store when the version is pinned, so that
+ * changes can later be computed against them. Files are only stored once.
+ * Only the latest version of each directory is remembered until it's pinned.
+ */
+export class SnapshotProvider implements VersionProvider {
+  public readonly storeDir: string;
+  /* The last scan of each directory, by its path. */
+  private scans: Map<string, Scan>;
+
+  constructor(
+    storeDir: string = pathutil.join(os.homedir(), ".tourist", "snapshots"),
+  ) {
+    this.storeDir = storeDir;
+    this.scans = new Map();
+  }
+
+  public async getCurrentVersion(path: AbsolutePath): Promise<string | null> {
+    try {
+      if (
+        !(await af.stat(path.path)).isDirectory() ||
+        (await isRepository(path.path))
+      ) {
+        return null;
+      }
+      return (await this.scan(path.path, false)).version;
+    } catch (_) {
+      return null;
+    }
+  }
+
+  /**
+   * Copies the directory's files into the store, so that `version` can be
+   * used after the directory changes.
+   *
+   * @throws Error if the directory is no longer at `version`.
+   */
+  public async pinVersion(version: string, repoPath: AbsolutePath) {
+    if (await af.exists(this.manifestFile(version))) {
+      return;
+    }
+    const scan = await this.scan(repoPath.path, true);
+    if (scan.version !== version) {
+      throw new Error(
+        `${repoPath.path} has changed since snapshot ${version}.`,
+      );
+    }
+    await af.mkdirp(pathutil.join(this.storeDir, "manifests"));
+    await af.writeTextFile(
+      this.manifestFile(version),
+      JSON.stringify(scan.manifest),
+    );
+  }
+
+  public async resolveVersion(ref: string): Promise<string | null> {
+    return (await this.loadManifest(ref)) ? ref : null;
+  }
+
+  public async getFileContents(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<string | null> {
+    const manifest = await this.loadManifest(version);
+    if (!manifest || manifest[path.path] === undefined) {
+      return null;
+    }
+    return await this.readContents(
+      version,
+      manifest[path.path],
+      path.path,
+      repoPath,
+    );
+  }
+
+  public async listFiles(version: string): Promise<string[] | null> {
+    const manifest = await this.loadManifest(version);
+    return manifest ? Object.keys(manifest).sort() : null;
+  }
+
+  public async getDirtyChangesForFile(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<FileChanges | null> {
+    return (await this.getDirtyChangesForFiles(version, [path], repoPath))[0];
+  }
+
+  public async getChangesForFile(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<FileChanges | null> {
+    return (
+      await this.getChangesForFiles(version, [path], repoPath, target)
+    )[0];
+  }
+
+  public async getDirtyChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<Array<FileChanges | null>> {
+    return await DiffCache.getInstance().lookup(
+      { repoPath, commit: version, mode: WORKING_COPY },
+      paths,
+      async (missing) =>
+        this.diffManifests(
+          version,
+          (await this.scan(repoPath.path, false)).manifest,
+          (path) => af.readTextFile(pathutil.join(repoPath.path, path), "utf8"),
+          missing,
+          repoPath,
+        ),
+    );
+  }
+
+  public async getChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<Array<FileChanges | null>> {
+    const to = target
+      ? await this.resolveVersion(target)
+      : await this.getCurrentVersion(repoPath);
+    if (!to) {
+      throw new Error(`Unknown snapshot ${target || repoPath.path}.`);
+    }
+    const key: DiffCacheKey = { repoPath, commit: version, mode: `..${to}` };
+    return await DiffCache.getInstance().lookup(key, paths, async (missing) => {
+      const after = await this.manifestFor(to);
+      return this.diffManifests(
+        version,
+        after,
+        (path) => this.readContents(to, after[path], path, repoPath),
+        missing,
+        repoPath,
+      );
+    });
+  }
+
+  private async diffManifests(
+    version: string,
+    after: Manifest,
+    readAfter: (path: string) => Promise<string>,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<FileChanges[]> {
+    const before = await this.manifestFor(version);
+    const changes = [] as FileChanges[];
+    for (const path of paths) {
+      const hash = before[path.path];
+      if (hash === undefined) {
+        changes.push(new FileChanges([], [], new Map(), path.path));
+        continue;
+      }
+
+      // A file that disappeared counts as renamed if a new file has exactly
+      // the same contents.
+      let name: string | undefined = path.path;
+      if (after[name] === undefined) {
+        name = Object.keys(after).find(
+          (p) => after[p] === hash && before[p] === undefined,
+        );
+      }
+
+      const oldLines = splitLines(
+        await this.readContents(version, hash, path.path, repoPath),
+      );
+      const newLines =
+        name === undefined ? [] : splitLines(await readAfter(name));
+      changes.push(diffLines(oldLines, newLines, name || path.path));
+    }
+    return changes;
+  }
+
+  /* Hashes every file under `root` that changed since the last scan, copying
+   * its contents into the store if `save` is set.
+   */
+  private async scan(root: string, save: boolean): Promise<Scan> {
+    const last = this.scans.get(root);
+    const started = Date.now();
+    const manifest: Manifest = {};
+    const stats: { [path: string]: string } = {};
+    const walk = async (dir: string) => {
+      for (const entry of (await af.readdir(dir)).sort()) {
+        const full = pathutil.join(dir, entry);
+        if (full === this.storeDir || VCS_DIRS.indexOf(entry) !== -1) {
+          continue;
+        }
+        const stat = await af.lstat(full);
+        if (stat.isDirectory()) {
+          await walk(full);
+        } else if (stat.isFile()) {
+          const rel = pathutil.relative(root, full).replace(/\\/g, "/");
+          stats[rel] = `${stat.size}:${stat.mtime.getTime()}`;
+          let hash =
+            last &&
+            last.stats[rel] === stats[rel] &&
+            stat.mtime.getTime() + RACY_WINDOW < last.started
+              ? last.manifest[rel]
+              : undefined;
+          if (
+            hash === undefined ||
+            (save && !(await af.exists(this.objectFile(hash))))
+          ) {
+            const contents = await af.readFile(full);
+            hash = hashContents(contents);
+            if (save) {
+              await this.saveObject(hash, contents);
+            }
+          }
+          manifest[rel] = hash;
+        }
+      }
+    };
+    await walk(root);
+    const scan = { version: hashManifest(manifest), manifest, stats, started };
+    this.scans.set(root, scan);
+    return scan;
+  }
+
+  private async manifestFor(version: string): Promise<Manifest> {
+    const manifest = await this.loadManifest(version);
+    if (!manifest) {
+      throw new Error(`Unknown snapshot ${version}.`);
+    }
+    return manifest;
+  }
+
+  private async loadManifest(version: string): Promise<Manifest | null> {
+    let manifest: Manifest | null = null;
+    this.scans.forEach((scan) => {
+      if (scan.version === version) {
+        manifest = scan.manifest;
+      }
+    });
+    if (manifest) {
+      return manifest;
+    }
+    try {
+      return JSON.parse(
+        await af.readTextFile(this.manifestFile(version), "utf8"),
+      );
+    } catch (_) {
+      return null;
+    }
+  }
+
+  private async saveObject(hash: string, contents: Buffer) {
+    const file = this.objectFile(hash);
+    if (!(await af.exists(file))) {
+      await af.mkdirp(pathutil.dirname(file));
+      await af.writeFile(file, contents);
+    }
+  }
+
+  /* Reads a file at `version`. Files of versions that haven't been pinned
+   * aren't stored, so they are read from the directory, as long as they
+   * haven't changed.
+   */
+  private async readContents(
+    version: string,
+    hash: string,
+    path: string,
+    repoPath: AbsolutePath,
+  ): Promise<string> {
+    if (await af.exists(this.manifestFile(version))) {
+      return await this.readObject(hash);
+    }
+    const contents = await af.readFile(pathutil.join(repoPath.path, path));
+    if (hashContents(contents) !== hash) {
+      throw new Error(`Snapshot ${version} was not pinned, and has changed.`);
+    }
+    return contents.toString("utf8");
+  }
+
+  private async readObject(hash: string): Promise<string> {
+    return await af.readTextFile(this.objectFile(hash), "utf8");
+  }
+
+  private manifestFile(version: string): string {
+    return pathutil.join(this.storeDir, "manifests", `${version}.json`);
+  }
+
+  private objectFile(hash: string): string {
+    return pathutil.join(this.storeDir, "objects", hash.substr(0, 2), hash);
+  }
+}
+
+async function isRepository(dir: string): Promise<boolean> {
+  for (const vcsDir of VCS_DIRS) {
+    if (await af.exists(pathutil.join(dir, vcsDir))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function hashContents(contents: Buffer): string {
+  return crypto
+    .createHash("sha1")
+    .update(contents)
+    .digest("hex");
+}
+
+function hashManifest(manifest: Manifest): string {
+  const entries = Object.keys(manifest)
+    .sort()
+    .map((path) => `${path}\0${manifest[path]}\n`);
+  return crypto
+    .createHash("sha1")
+    .update(entries.join(""))
+    .digest("hex");
+}
+
+function splitLines(contents: string): string[] {
+  const lines = contents.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
@@ -0,0 +1,183 @@
+import * as pathutil from "path";
+import ts from "typescript";
+
+/* A symbol is the dotted path of names of the declarations that enclose a
+ * line, such as `Tourist.refresh`. Stops in TypeScript and JavaScript files
+ * record one, so that they can be found again after the code has been moved,
+ * even to another file.
+ */
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Whether symbols can be found in the file at `path`.
+ */
+export function hasSymbols(path: string): boolean {
+  return SOURCE_EXTENSIONS.includes(pathutil.extname(path).toLowerCase());
+}
+
+/**
+ * Finds the innermost named declaration that contains `line` (1-indexed), or
+ * `null` if there isn't one.
+ *
+ * @param path The path of the file, used to work out its language.
+ * @param contents The contents of the file.
+ * @param line The line to look up.
+ */
+export function symbolAt(
+  path: string,
+  contents: string,
+  line: number,
+): string | null {
+  let found: string | null = null;
+  visitDeclarations(path, contents, (name, start, end) => {
+    if (start <= line && line <= end) {
+      // Declarations are visited outside-in, so the last match is innermost
+      found = name;
+    }
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Finds the line (1-indexed) where `symbol` is declared, or `null` if it isn't
+ * declared in the file.
+ *
+ * @param path The path of the file, used to work out its language.
+ * @param contents The contents of the file.
+ * @param symbol The symbol to look for.
+ */
+export function findSymbol(
+  path: string,
+  contents: string,
+  symbol: string,
+): number | null {
+  let found: number | null = null;
+  visitDeclarations(path, contents, (name, start) => {
+    if (name === symbol) {
+      found = start;
+      return true;
+    }
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Searches a set of files for the declaration of `symbol`, trying `preferred`
+ * (usually the file that the symbol was last seen in) first.
+ *
+ * @param symbol The symbol to look for.
+ * @param paths The files to search. Only the ones that `hasSymbols` are read.
+ * @param read Reads the contents of a file, or returns `null` if it can't.
+ * @param preferred A file to search before the rest.
+ */
+export async function locateSymbol(
+  symbol: string,
+  paths: string[],
+  read: (path: string) => Promise<string | null>,
+  preferred?: string,
+): Promise<{ path: string; line: number; lines: string[] } | null> {
+  const candidates = paths.filter((path) => hasSymbols(path)).sort();
+  if (preferred !== undefined && candidates.includes(preferred)) {
+    candidates.splice(candidates.indexOf(preferred), 1);
+    candidates.unshift(preferred);
+  }
+  for (const path of candidates) {
+    const contents = await read(path);
+    if (contents === null) {
+      continue;
+    }
+    const line = findSymbol(path, contents, symbol);
+    if (line !== null) {
+      return { path, line, lines: contents.split("\n") };
+    }
+  }
+  return null;
+}
+
+/* Calls `visit` with the symbol and first and last lines of every named
+ * declaration in a file, outermost first, until it returns `true`.
+ */
+function visitDeclarations(
+  path: string,
+  contents: string,
+  visit: (symbol: string, start: number, end: number) => boolean,
+) {
+  const source = ts.createSourceFile(
+    path,
+    contents,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  const lineOf = (pos: number) =>
+    source.getLineAndCharacterOfPosition(pos).line + 1;
+
+  let done = false;
+  const walk = (node: ts.Node, scope: string[]) => {
+    if (done) {
+      return;
+    }
+    const name = declarationName(node);
+    const inner = name === null ? scope : [...scope, name];
+    if (name !== null) {
+      done = visit(
+        inner.join("."),
+        lineOf(node.getStart(source)),
+        lineOf(node.getEnd()),
+      );
+    }
+    ts.forEachChild(node, (child) => walk(child, inner));
+  };
+  walk(source, []);
+}
+
+/* The name that a node adds to a symbol, or `null` if it doesn't declare
+ * anything worth pointing a stop at.
+ */
+function declarationName(node: ts.Node): string | null {
+  if (ts.isConstructorDeclaration(node)) {
+    return "constructor";
+  }
+  if (
+    ts.isVariableDeclaration(node) ||
+    ts.isPropertyAssignment(node) ||
+    ts.isPropertyDeclaration(node)
+  ) {
+    // Only worth a name if it holds something with a body of its own
+    const init = node.initializer;
+    if (
+      !init ||
+      !(
+        ts.isFunctionExpression(init) ||
+        ts.isArrowFunction(init) ||
+        ts.isClassExpression(init)
+      )
+    ) {
+      return ts.isPropertyDeclaration(node) ? nameText(node.name) : null;
+    }
+    return nameText(node.name);
+  }
+  if (
+    ts.isFunctionDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isInterfaceDeclaration(node) ||
+    ts.isEnumDeclaration(node) ||
+    ts.isModuleDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isGetAccessor(node) ||
+    ts.isSetAccessor(node)
+  ) {
+    return node.name ? nameText(node.name) : null;
+  }
+  return null;
+}
+
+function nameText(name: ts.Node): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
@@ -0,0 +1,379 @@
+import { matchAnchor } from "./anchor";
+import { StopLocation, TourFile, TourStop } from "./types";
+
+/* Semantic diffs between two versions of a tour file, for reviewing changes to
+ * tours. Stops are matched up by ID, so that a stop whose line moved shows up
+ * as a move rather than as a removal and an addition.
+ */
+
+/* The fields of a stop that make up its location. */
+const LOCATION_FIELDS = [
+  "repository",
+  "relPath",
+  "line",
+  "endLine",
+  "column",
+  "endColumn",
+];
+
+/**
+ * A changed field of the tour file (`title` or `description`). Absent values
+ * are `undefined`.
+ */
+export interface FieldChange {
+  field: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * A changed field of a stop (`title` or `body`). `title` is the stop's title
+ * in the new version.
+ */
+export interface StopEdit extends FieldChange {
+  id: string;
+  title: string;
+}
+
+/**
+ * A stop that is only in one of the versions. `index` is its position in that
+ * version.
+ */
+export interface StopChange {
+  id: string;
+  title: string;
+  index: number;
+}
+
+/**
+ * A stop that was moved to a different position in the tour.
+ */
+export interface StopReorder {
+  id: string;
+  title: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * A stop whose location changed. `kind` says how:
+ *  - `"refreshed"`: the stop followed its code when the repository was
+ *    refreshed to a new commit
+ *  - `"moved"`: the stop was pointed at different code (or repaired)
+ *  - `"broken"`: the stop lost its location in a refresh
+ *
+ * A side is `null` when the stop is broken in that version.
+ */
+export interface LocationChange {
+  id: string;
+  title: string;
+  kind: "refreshed" | "moved" | "broken";
+  from: StopLocation | null;
+  to: StopLocation | null;
+}
+
+/**
+ * A repository whose commit changed. A side is `undefined` when the tour
+ * doesn't use the repository in that version.
+ */
+export interface CommitChange {
+  repository: string;
+  from?: string;
+  to?: string;
+}
+
+export interface TourDiff {
+  fields: FieldChange[];
+  added: StopChange[];
+  removed: StopChange[];
+  reordered: StopReorder[];
+  edited: StopEdit[];
+  relocated: LocationChange[];
+  commits: CommitChange[];
+}
+
+/**
+ * Works out what changed between two versions of a tour file.
+ *
+ * Stops are matched up by ID. Only stops that moved relative to the others are
+ * reported as reordered, so adding a stop doesn't make every stop after it
+ * count as moved. A location change counts as a refresh if the repository moved
+ * to a new commit and the stop still points at the same code: its anchor (or,
+ * without one, its symbol) is unchanged or still matches. Stops without an
+ * anchor or symbol are assumed to have been refreshed.
+ *
+ * @param a The old version.
+ * @param b The new version.
+ */
+export function diffTourFiles(a: TourFile, b: TourFile): TourDiff {
+  const diff: TourDiff = {
+    fields: [],
+    added: [],
+    removed: [],
+    reordered: [],
+    edited: [],
+    relocated: [],
+    commits: [],
+  };
+
+  for (const field of ["title", "description"]) {
+    const from = (a as any)[field];
+    const to = (b as any)[field];
+    if (from !== to) {
+      diff.fields.push({ field, from, to });
+    }
+  }
+
+  const commitsA = commitsOf(a);
+  const commitsB = commitsOf(b);
+  for (const repository of Array.from(commitsA.keys()).concat(
+    Array.from(commitsB.keys()).filter((repo) => !commitsA.has(repo)),
+  )) {
+    const from = commitsA.get(repository);
+    const to = commitsB.get(repository);
+    if (from !== to) {
+      diff.commits.push({ repository, from, to });
+    }
+  }
+
+  const stopsA = new Map(
+    a.stops.map((stop): [string, TourStop] => [stop.id, stop]),
+  );
+  const stopsB = new Map(
+    b.stops.map((stop): [string, TourStop] => [stop.id, stop]),
+  );
+  a.stops.forEach((stop, index) => {
+    if (!stopsB.has(stop.id)) {
+      diff.removed.push({ id: stop.id, title: stop.title, index });
+    }
+  });
+  b.stops.forEach((stop, index) => {
+    if (!stopsA.has(stop.id)) {
+      diff.added.push({ id: stop.id, title: stop.title, index });
+    }
+  });
+
+  // Stops that aren't in the longest common subsequence of the shared stops
+  // are the ones that moved
+  const orderA = a.stops.map((stop) => stop.id).filter((id) => stopsB.has(id));
+  const orderB = b.stops.map((stop) => stop.id).filter((id) => stopsA.has(id));
+  const kept = longestCommon(orderA, orderB);
+  for (const id of orderB) {
+    if (!kept.has(id)) {
+      diff.reordered.push({
+        id,
+        title: stopsB.get(id)!.title,
+        from: a.stops.indexOf(stopsA.get(id)!),
+        to: b.stops.indexOf(stopsB.get(id)!),
+      });
+    }
+  }
+
+  for (const stop of b.stops) {
+    const old = stopsA.get(stop.id);
+    if (!old) {
+      continue;
+    }
+    for (const field of ["title", "body"]) {
+      const before = (old as any)[field];
+      const after = (stop as any)[field];
+      if (before !== after) {
+        diff.edited.push({
+          id: stop.id,
+          title: stop.title,
+          field,
+          from: before,
+          to: after,
+        });
+      }
+    }
+
+    if (LOCATION_FIELDS.every((f) => (old as any)[f] === (stop as any)[f])) {
+      continue;
+    }
+    const from = locationOf(old, commitsA);
+    const to = locationOf(stop, commitsB);
+    let kind: LocationChange["kind"] = "moved";
+    if (to === null) {
+      kind = "broken";
+    } else if (
+      from !== null &&
+      from.commit !== to.commit &&
+      sameCode(old, stop)
+    ) {
+      kind = "refreshed";
+    }
+    diff.relocated.push({ id: stop.id, title: stop.title, kind, from, to });
+  }
+
+  return diff;
+}
+
+/**
+ * Describes a tour diff in Markdown, for instance for a comment on a pull
+ * request. Stops that just followed their code in a refresh are counted rather
+ * than listed, since they aren't interesting to review.
+ *
+ * @param diff The diff, as made by `diffTourFiles`.
+ */
+export function summarizeTourDiff(diff: TourDiff): string {
+  const lines: string[] = [];
+  for (const change of diff.fields) {
+    if (change.field === "title") {
+      lines.push(
+        `Renamed the tour from ${quote(change.from)} to ${quote(change.to)}`,
+      );
+    } else {
+      lines.push(`Changed the tour's ${change.field}`);
+    }
+  }
+
+  for (const change of diff.commits) {
+    const refreshed = diff.relocated.filter(
+      (loc) =>
+        loc.kind === "refreshed" && loc.to!.repository === change.repository,
+    ).length;
+    let line =
+      change.from === undefined
+        ? `Added repository \`${change.repository}\` at ${code(change.to)}`
+        : change.to === undefined
+        ? `Removed repository \`${change.repository}\``
+        : `Moved repository \`${change.repository}\` from ` +
+          `${code(change.from)} to ${code(change.to)}`;
+    if (refreshed > 0) {
+      line += ` (${refreshed} ${refreshed === 1 ? "stop" : "stops"} updated)`;
+    }
+    lines.push(line);
+  }
+
+  for (const stop of diff.added) {
+    lines.push(`Added stop ${quote(stop.title)} at position ${stop.index + 1}`);
+  }
+  for (const stop of diff.removed) {
+    lines.push(`Removed stop ${quote(stop.title)}`);
+  }
+  for (const stop of diff.reordered) {
+    lines.push(
+      `Moved stop ${quote(stop.title)} from position ${stop.from + 1} ` +
+        `to ${stop.to + 1}`,
+    );
+  }
+  for (const change of diff.edited) {
+    if (change.field === "title") {
+      lines.push(`Renamed stop ${quote(change.from)} to ${quote(change.to)}`);
+    } else {
+      lines.push(`Changed the ${change.field} of stop ${quote(change.title)}`);
+    }
+  }
+  for (const loc of diff.relocated) {
+    if (loc.kind === "moved") {
+      lines.push(
+        `Pointed stop ${quote(loc.title)} at ${where(loc.to!)}` +
+          (loc.from ? ` (was ${where(loc.from)})` : ""),
+      );
+    } else if (loc.kind === "broken") {
+      lines.push(
+        `Stop ${quote(loc.title)} is broken` +
+          (loc.from ? ` (was ${where(loc.from)})` : ""),
+      );
+    }
+  }
+
+  if (lines.length === 0) {
+    return "No changes.\n";
+  }
+  return lines.map((line) => `- ${line}\n`).join("");
+}
+
+/* Whether a stop points at the same code in both versions, by its anchor or
+ * symbol. Refreshing re-captures the anchor when the target line was rewritten,
+ * so an anchor that still matches counts too.
+ */
+function sameCode(old: TourStop, stop: TourStop): boolean {
+  if (old.anchor && stop.anchor) {
+    const { before, target, after } = stop.anchor;
+    const lines = [...before, target, ...after];
+    return (
+      matchAnchor(old.anchor, lines, before.length + 1) === before.length + 1
+    );
+  }
+  if (old.symbol && stop.symbol) {
+    return old.symbol === stop.symbol;
+  }
+  return true;
+}
+
+function locationOf(
+  stop: TourStop,
+  commits: Map<string, string>,
+): StopLocation | null {
+  if (stop.relPath === "" && stop.line === 0) {
+    return null;
+  }
+  const location: StopLocation = {
+    repository: stop.repository,
+    relPath: stop.relPath,
+    line: stop.line,
+    commit: commits.get(stop.repository) || "",
+  };
+  if (stop.endLine !== undefined) {
+    location.endLine = stop.endLine;
+  }
+  return location;
+}
+
+function commitsOf(tf: TourFile): Map<string, string> {
+  return new Map(
+    tf.repositories.map((repo): [string, string] => [
+      repo.repository,
+      repo.commit,
+    ]),
+  );
+}
+
+/* The items of the longest common subsequence of two lists of unique IDs. */
+function longestCommon(a: string[], b: string[]): Set<string> {
+  const lengths = a.map(() => b.map(() => 0));
+  const at = (i: number, j: number) =>
+    i < a.length && j < b.length ? lengths[i][j] : 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const common = new Set<string>();
+  let x = 0;
+  let y = 0;
+  while (x < a.length && y < b.length) {
+    if (a[x] === b[y]) {
+      common.add(a[x]);
+      x++;
+      y++;
+    } else if (at(x + 1, y) >= at(x, y + 1)) {
+      x++;
+    } else {
+      y++;
+    }
+  }
+  return common;
+}
+
+function where(location: StopLocation): string {
+  const lines =
+    location.endLine !== undefined && location.endLine !== location.line
+      ? `${location.line}-${location.endLine}`
+      : `${location.line}`;
+  return `\`${location.relPath}:${lines}\``;
+}
+
+function code(commit: string | undefined): string {
+  return `\`${(commit || "").substr(0, 7)}\``;
+}
+
+function quote(text: string | undefined): string {
+  return `"${text || ""}"`;
+}
@@ -8,23 +8,111 @@ import {
   TourStopEdit,
   TourStopPos,
   BrokenTourStop,
-  validTourFile,
   TouristError,
   RepoState,
   BrokenError,
+  RefreshReport,
+  StopRange,
+  StopRefreshReport,
+  TourIssue,
+  TourIssueCode,
+  isNotBroken,
 } from "./types";
-import { VersionProvider, GitProvider, DiffCache } from "./versionProvider";
+import { VersionProvider, GitProvider } from "./versionProvider";
+import { HgProvider } from "./hgProvider";
+import { DiffCache } from "./diffCache";
 import { RelativePath, AbsolutePath } from "./paths";
 import { FileChanges } from "./fileChanges";
+import { captureAnchor, matchAnchor, StopAnchor } from "./anchor";
+import {
+  CodeTour,
+  codeToursFromTourFile,
+  ConversionIssue,
+  stopsFromCodeTour,
+  validCodeTour,
+} from "./codeTour";
+import { MarkdownOptions, renderMarkdown } from "./markdown";
+import { renderSite, SiteOptions, writeSite } from "./html";
+import { CURRENT_PROTOCOL, migrate, MigrationResult } from "./migrations";
+import { hasSymbols, locateSymbol, symbolAt } from "./symbols";
+import { capture, diff, History } from "./history";
 import * as pathutil from "path";
 
+/* The outcome of a refresh, computed before anything in the tour file is
+ * changed.
+ */
+interface RefreshPlan {
+  repoState: RepoState;
+  version: string;
+  stops: RefreshPlanEntry[];
+}
+
+interface RefreshPlanEntry {
+  stop: TourStop;
+  report: StopRefreshReport;
+  anchor?: StopAnchor;
+  range?: StopRange;
+}
+
+/* Where a stop's lines end up after a set of changes. */
+interface MappedStop {
+  line: number;
+  range: StopRange;
+  /* The line of the original stop that `line` was mapped from. */
+  first: number;
+  deleted: number;
+}
+
+/* The version control system assumed for repositories that don't specify one.
+ */
+const DEFAULT_VCS = "git";
+
+/* Snapshots work for any directory, so if a snapshot provider is registered,
+ * it is only used for repositories that no other provider recognizes.
+ */
+const SNAPSHOT_VCS = "snapshot";
+
+/* How many operations on a tour file can be undone, unless `historyLimit` is
+ * changed.
+ */
+const DEFAULT_HISTORY_LIMIT = 100;
+
 export class Tourist {
   public readonly config: RepoIndex;
+  /* The provider for the default VCS, git. */
   public vp: VersionProvider;
+  /* The number of operations on each tour file that can be undone. */
+  public historyLimit: number;
+  private providers: Map<string, VersionProvider>;
+  private histories: WeakMap<TourFile, History>;
+  /* The last operation queued on each tour file. Operations on a tour file run
+   * one at a time, so that each one's changes are recorded on their own.
+   */
+  private queues: WeakMap<TourFile, Promise<void>>;
 
   constructor(config: RepoIndex = {}) {
     this.config = config;
     this.vp = new GitProvider();
+    this.historyLimit = DEFAULT_HISTORY_LIMIT;
+    this.providers = new Map();
+    this.providers.set("hg", new HgProvider());
+    this.histories = new WeakMap();
+    this.queues = new WeakMap();
+  }
+
+  /**
+   * Registers the version provider to use for repositories that use `vcs`.
+   *
+   * @param vcs The name of the version control system, as recorded in the
+   *  tour file.
+   * @param vp The provider.
+   */
+  public registerProvider(vcs: string, vp: VersionProvider) {
+    if (vcs === DEFAULT_VCS) {
+      this.vp = vp;
+    } else {
+      this.providers.set(vcs, vp);
+    }
   }
 
   /**
@@ -37,7 +125,7 @@ export class Tourist {
     description: string = "",
   ): Promise<TourFile> {
     return {
-      protocolVersion: "1.0",
+      protocolVersion: CURRENT_PROTOCOL,
       id: title,
       repositories: [],
       stops: [],
@@ -54,7 +142,9 @@ export class Tourist {
    * @param name The new name for the tour.
    */
   public async rename(tf: TourFile, name: string) {
-    tf.title = name;
+    return this.record(tf, "rename", async () => {
+      tf.title = name;
+    });
   }
 
   /**
@@ -63,22 +153,25 @@ export class Tourist {
    * @param description The new description for the tour.
    */
   public async editDescription(tf: TourFile, description: string) {
-    tf.description = description;
+    return this.record(tf, "editDescription", async () => {
+      tf.description = description;
+    });
   }
 
   /**
    * Adds a stop to the tour.
    *
+   * If the stop is the first in its repository, the repository's version
+   * control system is detected by asking each registered version provider in
+   * turn (git first) for the current version.
+   *
    * @param tf
    * @param stop The tour stop to add, specified with an absolute path.
    * @param index An index into the stop list, if `null` the stop will be
    *  appended to the end. If the index is greater than the length of the list,
    *  the stop is added at the end. A negative index counts from the end of the
    *  list.
-   * @param versionMode Here be dragons. Don't mess with this unless you really
-   *  know you want to. This will be used down the line to allow for more
-   *  supported version providers, but for now git is the only one.
-   * @throws Error code(s): 100, 101, 200, 201, 202, 203
+   * @throws Error code(s): 100, 101, 102, 200, 201, 202, 203, 204, 205, 207
    *  See the error-handling.md document for more information.
    */
   public async add(
@@ -87,72 +180,7 @@ export class Tourist {
     index: number | null = null,
     id: string | null = null,
   ): Promise<string> {
-    if (id === null) {
-      if (stop.id) {
-        id = stop.id;
-      } else {
-        if (!tf.generator) {
-          tf.generator = 0;
-        }
-        id = `${tf.id}:${tf.generator.toString()}`;
-        tf.generator++;
-      }
-    }
-
-    const absPath = new AbsolutePath(stop.absPath);
-    // Make sure file exists and line is valid (might throw error)
-    await this.verifyLocation(absPath, stop.line);
-    for (const repo of tf.repositories) {
-      await this.refresh(tf, repo.repository);
-    }
-
-    const relPath = absPath.toRelativePath(this.config);
-    if (!relPath) {
-      throw new TouristError(204, "No known repository in this tree.");
-    }
-
-    // Find the appropriate repo version in the tour file
-    const repoState = tf.repositories.find(
-      (st) => st.repository === relPath.repository,
-    );
-
-    const repoPath = this.getRepoPath(relPath.repository);
-    const version = await this.vp.getCurrentVersion(repoPath);
-    if (!version) {
-      throw new TouristError(
-        202,
-        `Could not get current version for repository ${relPath.repository}.`,
-        relPath.repository,
-      );
-    }
-    if (!repoState) {
-      // Repo not versioned, add version
-      tf.repositories.push({
-        repository: relPath.repository,
-        commit: version,
-      });
-    }
-
-    // Get relative stop, current version of the repo (might throw error)
-    const relStop = await this.abstractStop(id, stop, repoState);
-
-    if (repoState && repoState.commit !== version) {
-      // Repo already versioned, versions disagree
-      throw new TouristError(
-        203,
-        `Mismatched versions. Repository ${repoState.repository} is checked` +
-          ` out to the wrong version.`,
-        repoState.repository,
-      );
-    }
-
-    // Insert stop into list
-    if (index !== null) {
-      tf.stops.splice(index, 0, relStop);
-    } else {
-      tf.stops.push(relStop);
-    }
-    return relStop.id;
+    return this.record(tf, "add", () => this.addStop(tf, stop, index, id));
   }
 
   /**
@@ -164,19 +192,21 @@ export class Tourist {
    *  See the error-handling.md document for more information.
    */
   public async remove(tf: TourFile, stopId: string) {
-    const index = tf.stops.findIndex((stop) => stop.id === stopId);
-    if (index < 0) {
-      throw new TouristError(0, "Stop ID is not in tour.");
-    }
-    tf.stops.splice(index, 1);
+    return this.record(tf, "remove", async () => {
+      const index = tf.stops.findIndex((stop) => stop.id === stopId);
+      if (index < 0) {
+        throw new TouristError(0, "Stop ID is not in tour.");
+      }
+      tf.stops.splice(index, 1);
 
-    // Prune any repositories that are no longer relevant to this tour
-    const remainingRepos = new Set<string>();
-    for (const stop of tf.stops) {
-      remainingRepos.add(stop.repository);
-    }
-    tf.repositories = tf.repositories.filter((repo) => {
-      return remainingRepos.has(repo.repository);
+      // Prune any repositories that are no longer relevant to this tour
+      const remainingRepos = new Set<string>();
+      for (const stop of tf.stops) {
+        remainingRepos.add(stop.repository);
+      }
+      tf.repositories = tf.repositories.filter((repo) => {
+        return remainingRepos.has(repo.repository);
+      });
     });
   }
 
@@ -190,16 +220,18 @@ export class Tourist {
    *  See the error-handling.md document for more information.
    */
   public async edit(tf: TourFile, stopId: string, stopEdit: TourStopEdit) {
-    const index = tf.stops.findIndex((stop) => stop.id === stopId);
-    if (index < 0) {
-      throw new TouristError(0, "Stop ID is not in tour.");
-    }
-    if (stopEdit.title !== undefined) {
-      tf.stops[index].title = stopEdit.title;
-    }
-    if (stopEdit.body !== undefined) {
-      tf.stops[index].body = stopEdit.body;
-    }
+    return this.record(tf, "edit", async () => {
+      const index = tf.stops.findIndex((stop) => stop.id === stopId);
+      if (index < 0) {
+        throw new TouristError(0, "Stop ID is not in tour.");
+      }
+      if (stopEdit.title !== undefined) {
+        tf.stops[index].title = stopEdit.title;
+      }
+      if (stopEdit.body !== undefined) {
+        tf.stops[index].body = stopEdit.body;
+      }
+    });
   }
 
   /**
@@ -208,20 +240,33 @@ export class Tourist {
    * @param tf
    * @param stopId The ID of the stop to be removed.
    * @param stopPos A delta to be applied to the stop.
-   * @throws Error code(s): 0, 100, 101, 200, 201, 202, 203
+   * @throws Error code(s): 0, 100, 101, 102, 200, 201, 202, 203, 204, 205, 207
    *  See the error-handling.md document for more information.
    */
   public async move(tf: TourFile, stopId: string, stopPos: TourStopPos) {
-    const index = tf.stops.findIndex((s) => s.id === stopId);
-    if (index < 0) {
-      throw new TouristError(0, "Stop ID is not in tour.");
-    }
-    const relStop = tf.stops[index];
-    const stop = (await this.resolveStop(tf, relStop)) as AbsoluteTourStop;
-    stop.absPath = stopPos.absPath;
-    stop.line = stopPos.line;
-    await this.add(tf, stop, index, relStop.id);
-    tf.stops.splice(index + 1, 1);
+    return this.record(tf, "move", async () => {
+      const index = tf.stops.findIndex((s) => s.id === stopId);
+      if (index < 0) {
+        throw new TouristError(0, "Stop ID is not in tour.");
+      }
+      const relStop = tf.stops[index];
+      const changes = await this.getDirtyChanges(tf, [relStop]);
+      const stop = (await this.resolveStop(
+        tf,
+        relStop,
+        changes[0],
+        this.trackedFiles(tf),
+      )) as AbsoluteTourStop;
+      stop.absPath = stopPos.absPath;
+      stop.line = stopPos.line;
+      stop.endLine = stopPos.endLine;
+      stop.column = stopPos.column;
+      stop.endColumn = stopPos.endColumn;
+      delete stop.symbol;
+      stop.trackSymbol = relStop.symbol !== undefined;
+      await this.addStop(tf, stop, index, relStop.id);
+      tf.stops.splice(index + 1, 1);
+    });
   }
 
   /**
@@ -235,27 +280,33 @@ export class Tourist {
     stopId: string,
     childStop: { tourId: string; stopNum: number },
   ) {
-    const index = tf.stops.findIndex((s) => s.id === stopId);
-    if (index < 0) {
-      throw new TouristError(0, "Stop ID is not in tour.");
-    }
-    tf.stops[index].childStops.push(childStop);
+    return this.record(tf, "link", async () => {
+      const index = tf.stops.findIndex((s) => s.id === stopId);
+      if (index < 0) {
+        throw new TouristError(0, "Stop ID is not in tour.");
+      }
+      tf.stops[index].childStops.push(childStop);
+    });
   }
 
   /**
    * Generates a tour from a tour file.
    *
    * @param tf
-   * @throws Error code(s): 200
+   * @throws Error code(s): 200, 207
    *  See the error-handling.md document for more information.
    */
   public async resolve(tf: TourFile): Promise<Tour> {
     const cache = DiffCache.getInstance();
     cache.start();
+    const changes = await this.getDirtyChanges(tf, tf.stops);
+    cache.invalidate();
+    const sourceFiles = this.trackedFiles(tf);
     const stops = await Promise.all(
-      tf.stops.map((stop) => this.resolveStop(tf, stop)),
+      tf.stops.map((stop, i) =>
+        this.resolveStop(tf, stop, changes[i], sourceFiles),
+      ),
     );
-    cache.invalidate();
     return {
       stops,
       title: tf.title,
@@ -263,76 +314,281 @@ export class Tourist {
   }
 
   /**
-   * Updates all stops in a tour file based on changes to the repository state.
-   *
-   * If any files have been deleted or if the target lines themselves have been
-   * deleted or completely changed, the stop will be left in an error state.
-   * Specifically, the line is set to 0 and the file name is set to
-   * `""`.
+   * Renders a tour as a Markdown document, for readers who don't have an
+   * editor extension: the title and description, then each stop with its
+   * location, body and an excerpt of the source around it.
    *
    * @param tf
-   * @throws Error code(s): 200, 300
+   * @param options
+   * @throws Error code(s): 200, 207
    *  See the error-handling.md document for more information.
    */
-  public async refresh(tf: TourFile, repository: string) {
-    const repoPath = this.getRepoPath(repository);
+  public async exportMarkdown(
+    tf: TourFile,
+    options: MarkdownOptions = {},
+  ): Promise<string> {
+    return await renderMarkdown(
+      tf,
+      await this.resolve(tf),
+      this.config,
+      options,
+    );
+  }
 
-    // Find the version of the repo in the file system
-    const currVersion = await this.vp.getCurrentVersion(repoPath);
-    if (!currVersion) {
-      throw new TouristError(
-        202,
-        `Could not get current version for repository ${repository}.`,
-        repository,
-      );
+  /**
+   * Generates a static HTML site for a set of tours, with a page for each
+   * stop showing the code around it. Links between stops in different tours
+   * of the set become hyperlinks.
+   *
+   * @param tourFiles The tours to include.
+   * @param outDir The directory to write the site to.
+   * @param options
+   * @returns The paths of the files that were written.
+   * @throws Error code(s): 200, 207
+   *  See the error-handling.md document for more information.
+   */
+  public async exportSite(
+    tourFiles: TourFile[],
+    outDir: string,
+    options: SiteOptions = {},
+  ): Promise<string[]> {
+    const tours = [];
+    for (const tf of tourFiles) {
+      tours.push({ tf, tour: await this.resolve(tf) });
     }
-
-    // Find the state of the repository in the tour file
-    const repoState = tf.repositories.find(
-      (st) => st.repository === repository,
+    return await writeSite(
+      await renderSite(tours, this.config, options),
+      outDir,
     );
-    if (!repoState) {
-      throw new TouristError(
-        300,
-        `No version for repository ${repository}.`,
-        repository,
-      );
-    } else if (repoState.commit === currVersion) {
-      // If repository is already up to date, don't do anything
-      return;
+  }
+
+  /**
+   * Looks for problems in a tour file without changing it: broken stops,
+   * duplicate stop IDs, stops without a title or body, repositories that aren't
+   * mapped or whose commit can't be found, and child stops that point to tours
+   * or stops that don't exist. Child stops are looked up in `tf` itself and in
+   * `tourFiles`, so pass every tour that this one links to.
+   *
+   * @param tf
+   * @param tourFiles The other tours that stops can link to.
+   * @returns The problems found, tour and repository problems first, then
+   *  those of each stop in order.
+   */
+  public async checkTour(
+    tf: TourFile,
+    tourFiles: TourFile[] = [],
+  ): Promise<TourIssue[]> {
+    const issues: TourIssue[] = [];
+    const report = (
+      severity: TourIssue["severity"],
+      code: TourIssueCode,
+      message: string,
+      where: { stopId?: string; repository?: string } = {},
+    ) => issues.push({ severity, code, message, ...where });
+
+    if (!tf.title.trim()) {
+      report("warning", "EmptyTitle", "The tour has no title.");
     }
 
-    const cache = DiffCache.getInstance();
-    cache.start();
-    for (const stop of tf.stops) {
-      // Skip if the stop isn't in this repository
-      if (stop.repository !== repository) {
+    // Stops can only be resolved in repositories that are mapped and at a
+    // commit that exists
+    const usable = new Set<string>();
+    for (const repoState of tf.repositories) {
+      const repository = repoState.repository;
+      if (!this.config[repository]) {
+        report(
+          "error",
+          "UnmappedRepository",
+          `Repository ${repository} is not mapped to a path.`,
+          { repository },
+        );
         continue;
       }
-
-      // Compute changes to the file
-      const changes: FileChanges | null = await this.vp.getChangesForFile(
-        repoState.commit,
-        new RelativePath(stop.repository, stop.relPath),
-        repoPath,
-      );
-      if (!changes) {
+      let vp: VersionProvider;
+      try {
+        vp = this.getProvider(repoState);
+      } catch (e) {
+        report("error", "NoVersionProvider", e.message, { repository });
+        continue;
+      }
+      const repoPath = this.getRepoPath(repository);
+      if (!(await vp.resolveVersion(repoState.commit, repoPath))) {
+        report(
+          "error",
+          "UnreachableCommit",
+          `Commit ${repoState.commit} of repository ${repository} can't be ` +
+            `found.`,
+          { repository },
+        );
         continue;
       }
+      usable.add(repository);
+    }
 
-      // Apply the changes to the stop
-      const newLine = changes.computeDelta(stop.line);
-      if (newLine !== null) {
-        stop.line = newLine;
-        stop.relPath = changes.name;
-      } else {
-        stop.line = 0;
-        stop.relPath = "";
+    const lost = (stop: TourStop) => stop.line === 0 && stop.relPath === "";
+    const checkable = tf.stops.filter(
+      (stop) => usable.has(stop.repository) && !lost(stop),
+    );
+    const tour = await this.resolve({ ...tf, stops: checkable });
+    const resolved = new Map<TourStop, AbsoluteTourStop | BrokenTourStop>();
+    checkable.forEach((stop, i) => resolved.set(stop, tour.stops[i]));
+
+    const seen = new Set<string>();
+    for (const stop of tf.stops) {
+      const stopId = stop.id;
+      if (seen.has(stopId)) {
+        report(
+          "error",
+          "DuplicateStopId",
+          `Stop ID ${stopId} is used by more than one stop.`,
+          { stopId },
+        );
+      }
+      seen.add(stopId);
+      if (!stop.title.trim()) {
+        report("warning", "EmptyTitle", `Stop ${stopId} has no title.`, {
+          stopId,
+        });
+      }
+      if (!(stop.body || "").trim()) {
+        report("warning", "EmptyBody", `Stop ${stopId} has no body.`, {
+          stopId,
+        });
+      }
+
+      const repository = stop.repository;
+      const result = resolved.get(stop);
+      if (!tf.repositories.some((st) => st.repository === repository)) {
+        report(
+          "error",
+          "UnknownRepository",
+          `Stop ${stopId} is in repository ${repository}, which has no ` +
+            `version.`,
+          { stopId, repository },
+        );
+      } else if (lost(stop)) {
+        report(
+          "error",
+          "BrokenStop",
+          `Stop ${stopId} lost its location in a refresh.`,
+          { stopId, repository },
+        );
+      } else if (result && !isNotBroken(result)) {
+        report(
+          "error",
+          "BrokenStop",
+          `Stop ${stopId} is broken: ${result.errors.join(", ")}.`,
+          { stopId, repository },
+        );
+      } else if (result && result.partiallyBroken) {
+        report(
+          "warning",
+          "PartiallyBrokenStop",
+          `Some of the lines of stop ${stopId} have been deleted.`,
+          { stopId, repository },
+        );
+      }
+
+      for (const child of stop.childStops) {
+        const target =
+          child.tourId === tf.id
+            ? tf
+            : tourFiles.find((other) => other.id === child.tourId);
+        if (!target) {
+          report(
+            "error",
+            "MissingTour",
+            `Stop ${stopId} links to tour ${child.tourId}, which wasn't found.`,
+            { stopId },
+          );
+        } else if (
+          !Number.isInteger(child.stopNum) ||
+          child.stopNum < 0 ||
+          child.stopNum >= target.stops.length
+        ) {
+          report(
+            "error",
+            "StopOutOfRange",
+            `Stop ${stopId} links to stop ${child.stopNum + 1} of tour ` +
+              `${child.tourId}, which has ${target.stops.length} stops.`,
+            { stopId },
+          );
+        }
       }
     }
-    cache.invalidate();
+    return issues;
+  }
+
+  /**
+   * Updates all stops in a tour file based on changes to the repository state.
+   *
+   * If a stop's target line has been rewritten, the stop's anchor (if it has
+   * one) is used to find the closest matching line in the new version of the
+   * file. If any files have been deleted or if the target lines themselves have
+   * been deleted or completely changed, the stop will be left in an error state.
+   * Specifically, the line is set to 0 and the file name is set to
+   * `""`. The location the stop had before the refresh is kept in `lastKnown`,
+   * so that it can be repaired later.
+   *
+   * @param tf
+   * @param repository The repository to refresh.
+   * @param target A version (e.g. a tag, branch, or commit) to refresh to. If
+   *  not given, the tour is refreshed to the currently checked out version.
+   * @throws Error code(s): 200, 202, 206, 207, 300
+   *  See the error-handling.md document for more information.
+   */
+  public async refresh(tf: TourFile, repository: string, target?: string) {
+    return this.record(tf, "refresh", async () => {
+      const plan = await this.planRefresh(tf, repository, target);
+      await this.pinRefresh(plan);
+      this.applyRefresh(plan);
+    });
+  }
 
-    repoState.commit = currVersion;
+  /**
+   * Refreshes every repository in a tour file.
+   *
+   * The refresh is all-or-nothing: if any repository can't be refreshed, no
+   * stops or commits in the tour file are changed, and the error lists every
+   * repository that failed.
+   *
+   * @param tf
+   * @param targets Versions to refresh to, keyed by repository. Repositories
+   *  that aren't listed are refreshed to their currently checked out version.
+   * @throws Error code(s): 205
+   *  See the error-handling.md document for more information.
+   */
+  public async refreshAll(
+    tf: TourFile,
+    targets: { [repository: string]: string } = {},
+  ) {
+    return this.record(tf, "refreshAll", () =>
+      this.refreshRepositories(tf, targets),
+    );
+  }
+
+  /**
+   * Computes what `refresh` would do to each stop in a repository, without
+   * modifying the tour file.
+   *
+   * @param tf
+   * @param repository The repository to refresh.
+   * @param target A version to refresh to, as in `refresh`.
+   * @throws Error code(s): 200, 202, 206, 207, 300
+   *  See the error-handling.md document for more information.
+   */
+  public async previewRefresh(
+    tf: TourFile,
+    repository: string,
+    target?: string,
+  ): Promise<RefreshReport> {
+    const plan = await this.planRefresh(tf, repository, target);
+    return {
+      repository,
+      fromCommit: plan.repoState.commit,
+      toCommit: plan.version,
+      stops: plan.stops.map((st) => st.report),
+    };
   }
 
   /**
@@ -348,15 +604,47 @@ export class Tourist {
    *  See the error-handling.md document for more information.
    */
   public async reorder(tf: TourFile, stopId: string, newIndex: number) {
-    if (newIndex < 0 || newIndex >= tf.stops.length) {
-      throw new TouristError(0, "New index is out of bounds.");
-    }
-    const oldIndex = tf.stops.findIndex((s) => s.id === stopId);
-    if (oldIndex < 0) {
-      throw new TouristError(0, "Stop ID is not in tour.");
-    }
-    const stop = tf.stops.splice(oldIndex, 1)[0];
-    tf.stops.splice(newIndex, 0, stop);
+    return this.record(tf, "reorder", async () => {
+      if (newIndex < 0 || newIndex >= tf.stops.length) {
+        throw new TouristError(0, "New index is out of bounds.");
+      }
+      const oldIndex = tf.stops.findIndex((s) => s.id === stopId);
+      if (oldIndex < 0) {
+        throw new TouristError(0, "Stop ID is not in tour.");
+      }
+      const stop = tf.stops.splice(oldIndex, 1)[0];
+      tf.stops.splice(newIndex, 0, stop);
+    });
+  }
+  /**
+   * Reverts the most recent operation on a tour file that hasn't been undone.
+   * Every method that changes a tour file (such as `add`, `edit`, `reorder`
+   * and `refresh`) can be undone, up to `historyLimit` operations back.
+   *
+   * @param tf
+   * @returns The name of the method whose operation was undone, or `null` if
+   *  there was nothing to undo.
+   */
+  public async undo(tf: TourFile): Promise<string | null> {
+    return this.enqueue(tf, async () => {
+      const op = this.historyOf(tf).undo(tf);
+      return op ? op.name : null;
+    });
+  }
+
+  /**
+   * Reapplies the most recently undone operation on a tour file. Operations
+   * can only be redone until the tour file is changed again.
+   *
+   * @param tf
+   * @returns The name of the method whose operation was redone, or `null` if
+   *  there was nothing to redo.
+   */
+  public async redo(tf: TourFile): Promise<string | null> {
+    return this.enqueue(tf, async () => {
+      const op = this.historyOf(tf).redo(tf);
+      return op ? op.name : null;
+    });
   }
 
   /**
@@ -366,12 +654,19 @@ export class Tourist {
    */
   public serializeTourFile(tf: TourFile): string {
     const replacer = [
+      "after",
+      "anchor",
+      "before",
       "body",
       "childStops",
+      "column",
       "commit",
       "description",
+      "endColumn",
+      "endLine",
       "generator",
       "id",
+      "lastKnown",
       "line",
       "protocolVersion",
       "relPath",
@@ -379,8 +674,11 @@ export class Tourist {
       "repository",
       "stopNum",
       "stops",
+      "symbol",
+      "target",
       "title",
       "tourId",
+      "vcs",
       "version",
     ];
     return JSON.stringify(tf, replacer, 2);
@@ -389,20 +687,126 @@ export class Tourist {
   /**
    * Create a tour file from a string representation.
    *
+   * Files written by older versions of Tourist are migrated to the current
+   * protocol version.
+   *
    * @param json String that encodes a tour file.
-   * @throws Error code(s): 400, 401
+   * @throws Error code(s): 400, 401, 402
    *  See the error-handling.md document for more information.
    */
   public deserializeTourFile(json: string): TourFile {
+    return this.migrateTourFile(json).tourFile;
+  }
+
+  /**
+   * Create a tour file from a string representation, like
+   * `deserializeTourFile`, and report which migrations were needed to bring it
+   * up to the current protocol version.
+   *
+   * @param json String that encodes a tour file.
+   * @throws Error code(s): 400, 401, 402
+   *  See the error-handling.md document for more information.
+   */
+  public migrateTourFile(json: string): MigrationResult {
+    let obj: any;
     try {
-      const obj = JSON.parse(json);
-      if (!validTourFile(obj)) {
-        throw new TouristError(401, "Object is not a valid TourFile.");
-      }
-      return obj;
+      obj = JSON.parse(json);
+    } catch (_) {
+      throw new TouristError(400, "Invalid JSON string.");
+    }
+    return migrate(obj);
+  }
+
+  /**
+   * Converts a tour in the CodeTour format into a tour file. The CodeTour's
+   * workspace root is taken to be `repository`, and the tour is pinned to the
+   * CodeTour's `ref` if it has one, or the current version of the repository
+   * otherwise. Steps that can't be turned into stops, such as directory,
+   * pattern and URI steps, are left out and reported in `skipped`.
+   *
+   * @param json The contents of a `.tour` file.
+   * @param repository The repository that the CodeTour's workspace root maps
+   *  to.
+   * @param trackSymbols Whether to record the symbol that each stop is in, as
+   *  `trackSymbol` does for `add`.
+   * @throws Error code(s): 200, 202, 206, 400, 403
+   *  See the error-handling.md document for more information.
+   */
+  public async importCodeTour(
+    json: string,
+    repository: string,
+    trackSymbols: boolean = false,
+  ): Promise<{ tourFile: TourFile; skipped: ConversionIssue[] }> {
+    let codeTour: any;
+    try {
+      codeTour = JSON.parse(json);
     } catch (_) {
       throw new TouristError(400, "Invalid JSON string.");
     }
+    if (!validCodeTour(codeTour)) {
+      throw new TouristError(403, "Object is not a valid CodeTour.");
+    }
+
+    const repoPath = this.getRepoPath(repository);
+    const repo = await this.detectProvider(repoPath);
+    if (!repo) {
+      throw new TouristError(
+        202,
+        `Could not get current version for repository ${repository}.`,
+        repository,
+      );
+    }
+    let version: string | null = repo.version;
+    if (codeTour.ref !== undefined) {
+      version = await repo.vp.resolveVersion(codeTour.ref, repoPath);
+      if (!version) {
+        throw new TouristError(
+          206,
+          `Could not find version ${codeTour.ref} in repository ` +
+            `${repository}.`,
+          repository,
+        );
+      }
+    }
+    const pinned = version;
+
+    const tf = await this.init(codeTour.title, codeTour.description || "");
+    const { stops, skipped } = await stopsFromCodeTour(
+      codeTour,
+      tf.id,
+      repository,
+      (path) =>
+        repo.vp.getFileContents(
+          pinned,
+          new RelativePath(repository, path),
+          repoPath,
+        ),
+      trackSymbols,
+    );
+    tf.stops = stops;
+    tf.generator = stops.length;
+    if (stops.length > 0) {
+      await this.pinVersion(repo.vp, pinned, repository);
+      tf.repositories.push({ repository, commit: pinned, vcs: repo.vcs });
+    }
+    return { tourFile: tf, skipped };
+  }
+
+  /**
+   * Converts a tour file into the CodeTour format. A CodeTour covers a single
+   * repository, so one is produced for each repository the tour has stops in.
+   * Anything that can't be represented, such as child stops and broken stops,
+   * is reported in `lost`.
+   *
+   * @param tf
+   */
+  public exportCodeTour(
+    tf: TourFile,
+  ): {
+    tours: Array<{ repository: string; codeTour: CodeTour }>;
+    lost: ConversionIssue[];
+  } {
+    return codeToursFromTourFile(tf);
   }
 
   /**
@@ -460,29 +864,301 @@ export class Tourist {
     return tourist;
   }
 
-  private async verifyLocation(path: AbsolutePath, line: number) {
-    let data: Buffer;
-    try {
-      data = await af.readFile(path.path);
+  /* Runs an operation that changes a tour file, recording whatever it changed
+   * so that it can be undone. Changes are recorded even if the operation
+   * fails partway.
+   */
+  private async record<T>(
+    tf: TourFile,
+    name: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    return this.enqueue(tf, async () => {
+      const before = capture(tf);
+      try {
+        return await operation();
+      } finally {
+        const patches = diff(before, capture(tf));
+        if (patches) {
+          this.historyOf(tf).record({ name, ...patches });
+        }
+      }
+    });
+  }
+
+  /* Runs a task once every task queued before it on the same tour file has
+   * finished, whether or not they succeeded. With nothing queued, the task
+   * starts right away.
+   */
+  private enqueue<T>(tf: TourFile, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(tf);
+    const result = previous ? previous.then(task) : task();
+    const settled = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queues.set(tf, settled);
+    settled.then(() => {
+      if (this.queues.get(tf) === settled) {
+        this.queues.delete(tf);
+      }
+    });
+    return result;
+  }
+
+  private historyOf(tf: TourFile): History {
+    let history = this.histories.get(tf);
+    if (!history) {
+      history = new History(this.historyLimit);
+      this.histories.set(tf, history);
+    }
+    history.limit = this.historyLimit;
+    return history;
+  }
+
+  /* The body of `add`, for operations that add a stop as part of their own
+   * change.
+   */
+  private async addStop(
+    tf: TourFile,
+    stop: AbsoluteTourStop,
+    index: number | null,
+    id: string | null,
+  ): Promise<string> {
+    if (id === null) {
+      if (stop.id) {
+        id = stop.id;
+      } else {
+        if (!tf.generator) {
+          tf.generator = 0;
+        }
+        id = `${tf.id}:${tf.generator.toString()}`;
+        tf.generator++;
+      }
+    }
+
+    const absPath = new AbsolutePath(stop.absPath);
+    // Make sure file exists and line is valid (might throw error)
+    const lines = await this.verifyLocation(absPath, stop.line, stop);
+    try {
+      await this.refreshRepositories(tf);
+    } catch (e) {
+      // A single failing repository keeps its own error code
+      if (e instanceof TouristError && e.causes && e.causes.length === 1) {
+        throw e.causes[0];
+      }
+      throw e;
+    }
+
+    const relPath = absPath.toRelativePath(this.config);
+    if (!relPath) {
+      throw new TouristError(204, "No known repository in this tree.");
+    }
+
+    // Find the appropriate repo version in the tour file
+    const repoState = tf.repositories.find(
+      (st) => st.repository === relPath.repository,
+    );
+
+    const repoPath = this.getRepoPath(relPath.repository);
+    const repo = repoState
+      ? await this.currentVersion(repoState)
+      : await this.detectProvider(repoPath);
+    if (!repo) {
+      throw new TouristError(
+        202,
+        `Could not get current version for repository ${relPath.repository}.`,
+        relPath.repository,
+      );
+    }
+    const version = repo.version;
+    if (!repoState) {
+      // Repo not versioned, add version
+      await this.pinVersion(repo.vp, version, relPath.repository);
+      tf.repositories.push({
+        repository: relPath.repository,
+        commit: version,
+        vcs: repo.vcs,
+      });
+    }
+
+    // Get relative stop, current version of the repo (might throw error)
+    const relStop = await this.abstractStop(
+      id,
+      stop,
+      lines,
+      repo.vp,
+      repoState ? repoState.commit : version,
+    );
+
+    if (repoState && repoState.commit !== version) {
+      // Repo already versioned, versions disagree
+      throw new TouristError(
+        203,
+        `Mismatched versions. Repository ${repoState.repository} is checked` +
+          ` out to the wrong version.`,
+        repoState.repository,
+      );
+    }
+
+    // Insert stop into list
+    if (index !== null) {
+      tf.stops.splice(index, 0, relStop);
+    } else {
+      tf.stops.push(relStop);
+    }
+    return relStop.id;
+  }
+
+  /* The body of `refreshAll`, for operations that refresh as part of their own
+   * change.
+   */
+  private async refreshRepositories(
+    tf: TourFile,
+    targets: { [repository: string]: string } = {},
+  ) {
+    const plans: RefreshPlan[] = [];
+    const errors: TouristError[] = [];
+    for (const repo of tf.repositories) {
+      try {
+        plans.push(
+          await this.planRefresh(tf, repo.repository, targets[repo.repository]),
+        );
+      } catch (e) {
+        if (!(e instanceof TouristError)) {
+          throw e;
+        }
+        errors.push(e);
+      }
+    }
+
+    if (errors.length > 0) {
+      const repos = errors.map((e) => e.repoName).filter((r) => r);
+      throw new TouristError(
+        205,
+        `Could not refresh repositories ${repos.join(", ")}.`,
+        repos.length === 1 ? repos[0] : undefined,
+        errors,
+      );
+    }
+
+    for (const plan of plans) {
+      await this.pinRefresh(plan);
+    }
+    for (const plan of plans) {
+      this.applyRefresh(plan);
+    }
+  }
+
+  private async verifyLocation(
+    path: AbsolutePath,
+    line: number,
+    { endLine, column, endColumn }: StopRange = {},
+  ): Promise<string[]> {
+    let data: Buffer;
+    try {
+      data = await af.readFile(path.path);
     } catch (e) {
       throw new TouristError(
         100,
         `Invalid location. Could not read ${path.path}.`,
       );
     }
-    if (line < 1 || line > data.toString().split("\n").length) {
+    const lines = data.toString().split("\n");
+    if (line < 1 || line > lines.length) {
       throw new TouristError(
         101,
         `Invalid location. No line ${line} in ${path.path}.`,
       );
     }
+    if (endLine !== undefined) {
+      if (endLine > lines.length) {
+        throw new TouristError(
+          101,
+          `Invalid location. No line ${endLine} in ${path.path}.`,
+        );
+      }
+      if (endLine < line) {
+        throw new TouristError(
+          102,
+          `Invalid location. Line ${endLine} comes before line ${line}.`,
+        );
+      }
+    }
+    for (const col of [column, endColumn]) {
+      if (col !== undefined && col < 1) {
+        throw new TouristError(
+          101,
+          `Invalid location. No column ${col} in ${path.path}.`,
+        );
+      }
+    }
+    if (
+      column !== undefined &&
+      endColumn !== undefined &&
+      (endLine === undefined || endLine === line) &&
+      endColumn < column
+    ) {
+      throw new TouristError(
+        102,
+        `Invalid location. Column ${endColumn} comes before column ${column}.`,
+      );
+    }
+    return lines;
   }
 
+  /* Computes the changes to each stop's file since the tour's version, with
+   * one request to the version provider per repository.
+   */
+  private async getDirtyChanges(
+    tf: TourFile,
+    stops: TourStop[],
+  ): Promise<Array<FileChanges | null>> {
+    const result: Array<FileChanges | null> = stops.map(() => null);
+    const repositories = stops
+      .map((stop) => stop.repository)
+      .filter((repo, i, repos) => repos.indexOf(repo) === i);
+    await Promise.all(
+      repositories.map(async (repository) => {
+        const repoPath = this.getRepoPath(repository);
+        const repoState = tf.repositories.find(
+          (st) => st.repository === repository,
+        );
+        if (!repoState) {
+          throw new TouristError(
+            300,
+            `No version for repository ${repository}.`,
+            repository,
+          );
+        }
+
+        const indices = stops
+          .map((_, i) => i)
+          .filter((i) => stops[i].repository === repository);
+        const changes = await this.getProvider(
+          repoState,
+        ).getDirtyChangesForFiles(
+          repoState.commit,
+          indices.map((i) => new RelativePath(repository, stops[i].relPath)),
+          repoPath,
+        );
+        indices.forEach((index, i) => {
+          result[index] = changes[i];
+        });
+      }),
+    );
+    return result;
+  }
+
+  /* Resolves a stop against the files on disk. `sourceFiles` lists the files
+   * in a repository that its symbol is searched for in.
+   */
   private async resolveStop(
     tf: TourFile,
     stop: TourStop,
+    changes: FileChanges | null,
+    sourceFiles: (repository: string) => Promise<string[]>,
   ): Promise<AbsoluteTourStop | BrokenTourStop> {
-    const repoPath = await this.getRepoPath(stop.repository);
     const repoState = tf.repositories.find(
       (st) => st.repository === stop.repository,
     );
@@ -501,35 +1177,59 @@ export class Tourist {
     };
     const makeBroken = (errors: BrokenError[]) => ({
       errors,
+      lastKnown: stop.lastKnown || {
+        repository: stop.repository,
+        relPath: stop.relPath,
+        line: stop.line,
+        ...rangeOf({ endLine: stop.endLine }),
+        commit: repoState.commit,
+      },
       ...baseFields,
     });
-    const changes = await this.vp.getDirtyChangesForFile(
-      repoState.commit,
-      new RelativePath(stop.repository, stop.relPath),
-      repoPath,
-    );
     if (!changes) {
       return makeBroken(["FileNotFound"]);
     }
 
-    const absPath = new RelativePath(
-      stop.repository,
-      changes.name,
-    ).toAbsolutePath(this.config);
-    if (!absPath) {
-      throw new TouristError(
-        200,
-        `Repository ${stop.repository} is not mapped to a path.`,
-        stop.repository,
+    const toAbsolute = (path: string) =>
+      new RelativePath(stop.repository, path).toAbsolutePath(this.config)!;
+    let absPath = toAbsolute(changes.name);
+    const lines = await this.readLines(absPath);
+
+    let mapped: MappedStop | null = null;
+    let newLine: number | null = null;
+    let range: StopRange = {};
+    if (lines) {
+      mapped = mapStop(stop, changes);
+      newLine = mapped ? mapped.line : null;
+      range = mapped ? mapped.range : {};
+      if (newLine === null && stop.anchor) {
+        newLine = matchAnchor(stop.anchor, lines, stop.line);
+        if (newLine !== null) {
+          range = shiftStop(stop, newLine, lines.length);
+        }
+      }
+    }
+    if (newLine === null && stop.symbol) {
+      // Fall back to searching the repository's files for the stop's symbol,
+      // as they are on disk
+      const found = await locateSymbol(
+        stop.symbol,
+        await sourceFiles(stop.repository),
+        async (path) => {
+          const contents = await this.readLines(toAbsolute(path));
+          return contents ? contents.join("\n") : null;
+        },
+        changes.name,
       );
+      if (found) {
+        absPath = toAbsolute(found.path);
+        newLine = found.line;
+        range = shiftStop(stop, newLine, found.lines.length);
+      }
     }
-    try {
-      await af.readFile(absPath.path);
-    } catch (e) {
+    if (!lines && newLine === null) {
       return makeBroken(["FileNotFound"]);
     }
-
-    const newLine = await changes.computeDelta(stop.line);
     if (!newLine || newLine <= 0) {
       return makeBroken(["LineNotFound"]);
     }
@@ -537,14 +1237,49 @@ export class Tourist {
     return {
       absPath: absPath.path,
       line: newLine,
+      ...range,
+      ...(mapped && mapped.deleted > 0 ? { partiallyBroken: true } : {}),
+      ...(stop.symbol !== undefined ? { symbol: stop.symbol } : {}),
       ...baseFields,
     };
   }
 
+  /* Lists the files tracked in each repository of a tour file at its checked
+   * out version. Each list is only made once, however many stops ask for it.
+   */
+  private trackedFiles(
+    tf: TourFile,
+  ): (repository: string) => Promise<string[]> {
+    const lists = new Map<string, Promise<string[]>>();
+    return (repository) => {
+      let list = lists.get(repository);
+      if (!list) {
+        list = (async () => {
+          const repoState = tf.repositories.find(
+            (st) => st.repository === repository,
+          );
+          const current = repoState && (await this.currentVersion(repoState));
+          if (!current) {
+            return [];
+          }
+          const files = await current.vp.listFiles(
+            current.version,
+            this.getRepoPath(repository),
+          );
+          return files || [];
+        })();
+        lists.set(repository, list);
+      }
+      return list;
+    };
+  }
+
   private async abstractStop(
     id: string,
     stop: AbsoluteTourStop,
-    repoState?: RepoState,
+    lines: string[],
+    vp: VersionProvider,
+    commit: string,
   ): Promise<TourStop> {
     const absPath = new AbsolutePath(stop.absPath);
     const relPath = absPath.toRelativePath(this.config);
@@ -555,36 +1290,355 @@ export class Tourist {
       );
     }
 
-    const repoPath = this.getRepoPath(relPath.repository);
-    let commit = repoState ? repoState.commit : undefined;
-    if (!repoState) {
-      const rs = await this.vp.getCurrentVersion(repoPath);
-      if (rs) {
-        commit = rs;
-      }
+    let symbol = stop.symbol;
+    if (symbol === undefined && stop.trackSymbol && hasSymbols(relPath.path)) {
+      symbol = symbolAt(relPath.path, lines.join("\n"), stop.line) || undefined;
     }
 
-    if (commit) {
-      // Compute changes to the file
-      const changes = await this.vp.getDirtyChangesForFile(
-        commit,
-        new RelativePath(relPath.repository, relPath.path),
-        repoPath,
-      );
-      if (changes) {
-        stop.line = changes.undoDelta(stop.line)!;
+    // Compute changes to the file
+    const repoPath = this.getRepoPath(relPath.repository);
+    const changes = await vp.getDirtyChangesForFile(
+      commit,
+      new RelativePath(relPath.repository, relPath.path),
+      repoPath,
+    );
+    if (changes) {
+      const delta = changes.undoRangeDelta(stop.line, endOf(stop));
+      stop.line = delta.start!;
+      if (stop.endLine !== undefined) {
+        stop.endLine = delta.end!;
       }
     }
 
+    // Snapshot the target line in the version that the stop's line refers to,
+    // falling back to the file on disk if it isn't in that version yet
+    const committed = await vp.getFileContents(commit, relPath, repoPath);
+    const anchor = captureAnchor(
+      committed !== null ? committed.split("\n") : lines,
+      stop.line,
+    );
+
     return {
       id,
       body: stop.body,
       line: stop.line,
+      ...rangeOf(stop),
       relPath: relPath.path,
       repository: relPath.repository,
       title: stop.title,
       childStops: stop.childStops,
+      anchor,
+      ...(symbol !== undefined ? { symbol } : {}),
+    };
+  }
+
+  private async planRefresh(
+    tf: TourFile,
+    repository: string,
+    target?: string,
+  ): Promise<RefreshPlan> {
+    const repoPath = this.getRepoPath(repository);
+
+    // Find the state of the repository in the tour file
+    const repoState = tf.repositories.find(
+      (st) => st.repository === repository,
+    );
+    if (!repoState) {
+      throw new TouristError(
+        300,
+        `No version for repository ${repository}.`,
+        repository,
+      );
+    }
+    const vp = this.getProvider(repoState);
+
+    // Find the version to refresh to
+    let currVersion: string | null;
+    if (target !== undefined) {
+      currVersion = await vp.resolveVersion(target, repoPath);
+      if (!currVersion) {
+        throw new TouristError(
+          206,
+          `Could not find version ${target} in repository ${repository}.`,
+          repository,
+        );
+      }
+    } else {
+      // Find the version of the repo in the file system
+      currVersion = await vp.getCurrentVersion(repoPath);
+      if (!currVersion) {
+        throw new TouristError(
+          202,
+          `Could not get current version for repository ${repository}.`,
+          repository,
+        );
+      }
+    }
+
+    const plan: RefreshPlan = { repoState, version: currVersion, stops: [] };
+    const pending: RefreshPlanEntry[] = [];
+    for (let index = 0; index < tf.stops.length; index++) {
+      const stop = tf.stops[index];
+      // Skip if the stop isn't in this repository
+      if (stop.repository !== repository) {
+        continue;
+      }
+
+      const from = {
+        relPath: stop.relPath,
+        line: stop.line,
+        ...rangeOf({ endLine: stop.endLine }),
+      };
+      const report: StopRefreshReport = {
+        id: stop.id,
+        index,
+        from,
+        to: from,
+        renamed: false,
+        broken: false,
+        wasBroken: false,
+        rule: "unchanged",
+      };
+      const entry: RefreshPlanEntry = { stop, report };
+      plan.stops.push(entry);
+
+      if (stop.lastKnown || (stop.line === 0 && stop.relPath === "")) {
+        // Already broken (older tour files don't record where), nothing to be
+        // done
+        report.to = null;
+        report.broken = true;
+        report.wasBroken = true;
+        report.rule = "alreadyBroken";
+        continue;
+      }
+      if (repoState.commit === currVersion) {
+        // If repository is already up to date, don't do anything
+        continue;
+      }
+      pending.push(entry);
+    }
+    if (pending.length === 0) {
+      return plan;
+    }
+
+    // Compute changes to all of the files at once
+    const cache = DiffCache.getInstance();
+    cache.start();
+    const allChanges = await vp.getChangesForFiles(
+      repoState.commit,
+      pending.map(({ stop }) => new RelativePath(repository, stop.relPath)),
+      repoPath,
+      target !== undefined ? currVersion : undefined,
+    );
+    cache.invalidate();
+
+    // Only listed if some stop needs to go looking for its symbol
+    let files: string[] | null | undefined;
+    // The lines of each file in the new version, read at most once
+    const fileLines = new Map<string, Promise<string[] | null>>();
+    const linesAt = (path: string) => {
+      let lines = fileLines.get(path);
+      if (!lines) {
+        lines = vp
+          .getFileContents(
+            currVersion!,
+            new RelativePath(repository, path),
+            repoPath,
+          )
+          .then((contents) =>
+            contents === null ? null : contents.split("\n"),
+          );
+        fileLines.set(path, lines);
+      }
+      return lines;
     };
+
+    for (let i = 0; i < pending.length; i++) {
+      const { stop, report } = pending[i];
+      const changes = allChanges[i];
+      if (!changes) {
+        continue;
+      }
+      let newPath = changes.name;
+
+      // Work out where the stop ends up
+      const mapped = mapStop(stop, changes);
+      let newLine = mapped ? mapped.line : null;
+      pending[i].range = mapped ? mapped.range : {};
+      report.rule = changes.computeDeltaWithRule(
+        mapped ? mapped.first : stop.line,
+      ).rule;
+      if (mapped && mapped.deleted > 0) {
+        report.partiallyBroken = true;
+      }
+      if (newLine === null && stop.anchor) {
+        // Fall back to searching for the stop's content
+        const lines = await linesAt(changes.name);
+        if (lines !== null) {
+          newLine = matchAnchor(stop.anchor, lines, stop.line);
+          if (newLine !== null) {
+            pending[i].anchor = captureAnchor(lines, newLine);
+            pending[i].range = shiftStop(stop, newLine, lines.length);
+            report.rule = "anchor";
+          }
+        }
+      }
+      if (newLine === null && stop.symbol) {
+        // Fall back to searching the repository for the stop's symbol
+        if (files === undefined) {
+          files = await vp.listFiles(currVersion, repoPath);
+        }
+        const found = await locateSymbol(
+          stop.symbol,
+          files || [],
+          (path) =>
+            vp.getFileContents(
+              currVersion!,
+              new RelativePath(repository, path),
+              repoPath,
+            ),
+          changes.name,
+        );
+        if (found) {
+          newLine = found.line;
+          newPath = found.path;
+          pending[i].anchor = captureAnchor(found.lines, newLine);
+          pending[i].range = shiftStop(stop, newLine, found.lines.length);
+          report.rule = "symbol";
+        }
+      }
+      if (newLine !== null) {
+        if (!pending[i].anchor) {
+          // Keep the anchor in step with the code around the stop
+          const lines = await linesAt(newPath);
+          if (lines !== null) {
+            pending[i].anchor = captureAnchor(lines, newLine);
+          }
+        }
+        report.to = {
+          relPath: newPath,
+          line: newLine,
+          ...rangeOf({ endLine: pending[i].range!.endLine }),
+        };
+        report.renamed = newPath !== stop.relPath;
+      } else {
+        report.to = null;
+        report.broken = true;
+      }
+    }
+
+    return plan;
+  }
+
+  private async pinRefresh(plan: RefreshPlan) {
+    await this.pinVersion(
+      this.getProvider(plan.repoState),
+      plan.version,
+      plan.repoState.repository,
+    );
+  }
+
+  private applyRefresh(plan: RefreshPlan) {
+    for (const { stop, report, anchor, range } of plan.stops) {
+      if (report.wasBroken) {
+        continue;
+      }
+      if (report.to) {
+        stop.line = report.to.line;
+        stop.relPath = report.to.relPath;
+        if (range) {
+          delete stop.endLine;
+          delete stop.column;
+          delete stop.endColumn;
+          Object.assign(stop, range);
+        }
+        if (anchor) {
+          stop.anchor = anchor;
+        }
+      } else {
+        stop.lastKnown = {
+          repository: stop.repository,
+          relPath: stop.relPath,
+          line: stop.line,
+          ...rangeOf({ endLine: stop.endLine }),
+          commit: plan.repoState.commit,
+        };
+        stop.line = 0;
+        stop.relPath = "";
+      }
+    }
+    plan.repoState.commit = plan.version;
+  }
+
+  private async readLines(path: AbsolutePath): Promise<string[] | null> {
+    try {
+      return (await af.readFile(path.path)).toString().split("\n");
+    } catch (_) {
+      return null;
+    }
+  }
+
+  private getProvider(repoState: RepoState): VersionProvider {
+    const vcs = repoState.vcs || DEFAULT_VCS;
+    const vp = vcs === DEFAULT_VCS ? this.vp : this.providers.get(vcs);
+    if (!vp) {
+      throw new TouristError(
+        207,
+        `No version provider for ${vcs}, used by repository ` +
+          `${repoState.repository}.`,
+        repoState.repository,
+      );
+    }
+    return vp;
+  }
+
+  private async currentVersion(
+    repoState: RepoState,
+  ): Promise<{ vcs: string; vp: VersionProvider; version: string } | null> {
+    const vcs = repoState.vcs || DEFAULT_VCS;
+    const vp = this.getProvider(repoState);
+    const version = await vp.getCurrentVersion(
+      this.getRepoPath(repoState.repository),
+    );
+    return version ? { vcs, vp, version } : null;
+  }
+
+  /* Lets the provider keep whatever it needs to use `version` later, before
+   * the version is recorded in a tour file.
+   */
+  private async pinVersion(
+    vp: VersionProvider,
+    version: string,
+    repository: string,
+  ) {
+    if (vp.pinVersion) {
+      await vp.pinVersion(version, this.getRepoPath(repository));
+    }
+  }
+
+  /* Finds the first provider that recognizes the repository. */
+  private async detectProvider(
+    repoPath: AbsolutePath,
+  ): Promise<{ vcs: string; vp: VersionProvider; version: string } | null> {
+    const candidates: Array<[string, VersionProvider]> = [
+      [DEFAULT_VCS, this.vp],
+    ];
+    this.providers.forEach((vp, vcs) => {
+      if (vcs !== SNAPSHOT_VCS) {
+        candidates.push([vcs, vp]);
+      }
+    });
+    const snapshots = this.providers.get(SNAPSHOT_VCS);
+    if (snapshots) {
+      candidates.push([SNAPSHOT_VCS, snapshots]);
+    }
+    for (const [vcs, vp] of candidates) {
+      const version = await vp.getCurrentVersion(repoPath);
+      if (version) {
+        return { vcs, vp, version };
+      }
+    }
+    return null;
   }
 
   private getRepoPath(repo: string): AbsolutePath {
@@ -599,3 +1653,60 @@ export class Tourist {
     return new AbsolutePath(path);
   }
 }
+
+/* The last line of a stop. */
+function endOf(stop: { line: number; endLine?: number }): number {
+  return stop.endLine === undefined ? stop.line : stop.endLine;
+}
+
+/* Copies the parts of a range that are set, so that unset ones don't show up
+ * as `undefined` keys.
+ */
+function rangeOf(obj: StopRange): StopRange {
+  const range: StopRange = {};
+  if (obj.endLine !== undefined) {
+    range.endLine = obj.endLine;
+  }
+  if (obj.column !== undefined) {
+    range.column = obj.column;
+  }
+  if (obj.endColumn !== undefined) {
+    range.endColumn = obj.endColumn;
+  }
+  return range;
+}
+
+/* Maps each of a stop's lines through `changes`, or returns `null` if they
+ * were all deleted. A column is dropped if the line it was on was deleted,
+ * since it no longer points at the same text.
+ */
+function mapStop(stop: TourStop, changes: FileChanges): MappedStop | null {
+  const delta = changes.computeRangeDelta(stop.line, endOf(stop));
+  if (delta.start === null || delta.end === null || delta.first === null) {
+    return null;
+  }
+  return {
+    line: delta.start,
+    range: rangeOf({
+      endLine: stop.endLine === undefined ? undefined : delta.end,
+      column: delta.first === stop.line ? stop.column : undefined,
+      endColumn: delta.last === endOf(stop) ? stop.endColumn : undefined,
+    }),
+    first: delta.first,
+    deleted: delta.deleted,
+  };
+}
+
+/* Moves a stop's range so that it starts at `line`, keeping its length as far
+ * as the file allows.
+ */
+function shiftStop(stop: TourStop, line: number, length: number): StopRange {
+  return rangeOf({
+    endLine:
+      stop.endLine === undefined
+        ? undefined
+        : Math.min(line + stop.endLine - stop.line, length),
+    column: stop.column,
+    endColumn: stop.endColumn,
+  });
+}
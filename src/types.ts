@@ -1,11 +1,21 @@
+import { StopAnchor } from "./anchor";
+import { DeltaRule } from "./fileChanges";
+
 export interface TourStop {
   id: string;
   body?: string;
   line: number;
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
   relPath: string;
   repository: string;
   title: string;
   childStops: Array<{ tourId: string; stopNum: number }>;
+  anchor?: StopAnchor;
+  /* The declaration that the stop is in, such as `Tourist.refresh`. */
+  symbol?: string;
+  lastKnown?: StopLocation;
 }
 
 export interface AbsoluteTourStop {
@@ -13,6 +23,19 @@ export interface AbsoluteTourStop {
   absPath: string;
   body?: string;
   line: number;
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
+  /* Set when some, but not all, of the stop's lines have been deleted. */
+  partiallyBroken?: boolean;
+  /* The declaration that the stop is in, used to find the stop again if its
+   * line is lost.
+   */
+  symbol?: string;
+  /* Set when adding a stop to a TypeScript or JavaScript file to work out
+   * `symbol` from the line, if it isn't given.
+   */
+  trackSymbol?: boolean;
   title: string;
   childStops: Array<{ tourId: string; stopNum: number }>;
 }
@@ -25,6 +48,18 @@ export interface BrokenTourStop {
   body?: string;
   title: string;
   childStops: Array<{ tourId: string; stopNum: number }>;
+  lastKnown?: StopLocation;
+}
+
+/**
+ * The last location where a stop was known to be valid.
+ */
+export interface StopLocation {
+  repository: string;
+  relPath: string;
+  line: number;
+  endLine?: number;
+  commit: string;
 }
 
 export function isNotBroken(
@@ -36,6 +71,19 @@ export function isNotBroken(
 export interface TourStopPos {
   absPath: string;
   line: number;
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
+}
+
+/**
+ * The optional parts of a stop's location, for stops that cover more than a
+ * single line. Lines are 1-indexed and inclusive, columns are 1-indexed.
+ */
+export interface StopRange {
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
 }
 
 export interface TourStopEdit {
@@ -46,6 +94,69 @@ export interface TourStopEdit {
 export interface RepoState {
   repository: string;
   commit: string;
+  /* The version control system used by the repository. Defaults to git. */
+  vcs?: string;
+}
+
+/**
+ * How a stop was (or would be) mapped by a refresh. `null` means the stop could
+ * not be mapped, and `alreadyBroken` that it was broken before the refresh.
+ */
+export type RefreshRule =
+  | DeltaRule
+  | "anchor"
+  | "symbol"
+  | "unchanged"
+  | "alreadyBroken"
+  | null;
+
+export interface StopRefreshReport {
+  id: string;
+  index: number;
+  from: { relPath: string; line: number; endLine?: number };
+  to: { relPath: string; line: number; endLine?: number } | null;
+  renamed: boolean;
+  broken: boolean;
+  wasBroken: boolean;
+  /* Set when some, but not all, of the stop's lines would be deleted. */
+  partiallyBroken?: boolean;
+  rule: RefreshRule;
+}
+
+export interface RefreshReport {
+  repository: string;
+  fromCommit: string;
+  toCommit: string;
+  stops: StopRefreshReport[];
+}
+
+/**
+ * The kinds of problem that `checkTour` finds. These don't change between
+ * versions, so scripts can rely on them.
+ */
+export type TourIssueCode =
+  | "DuplicateStopId"
+  | "EmptyTitle"
+  | "EmptyBody"
+  | "UnknownRepository"
+  | "UnmappedRepository"
+  | "NoVersionProvider"
+  | "UnreachableCommit"
+  | "BrokenStop"
+  | "PartiallyBrokenStop"
+  | "MissingTour"
+  | "StopOutOfRange";
+
+/**
+ * A problem with a tour file. Errors mean that readers of the tour will run
+ * into it; warnings are things that are likely mistakes.
+ */
+export interface TourIssue {
+  severity: "error" | "warning";
+  code: TourIssueCode;
+  message: string;
+  stopId?: string;
+  repository?: string;
 }
 
 export interface TourFile {
@@ -69,40 +180,192 @@ export interface RepoIndex {
 }
 
 export function validTourFile(obj: any): obj is TourFile {
-  try {
-    return [
-      typeof obj.title === "string",
-      typeof obj.version === "string",
-      obj.stops.every(validTourStop),
-      obj.repositories.every(validRepoState),
-    ].reduce((x, y) => x && y, true);
-  } catch (_) {
-    return false;
-  }
+  return validateTourFile(obj).length === 0;
 }
 
 export function validTourStop(obj: any): obj is TourStop {
-  try {
-    return [
-      typeof obj.title === "string",
-      typeof obj.line === "number",
-      typeof obj.relPath === "string",
-      typeof obj.repository === "string",
-    ].reduce((x, y) => x && y, true);
-  } catch (_) {
-    return false;
-  }
+  return tourStopProblems(obj, "").length === 0;
+}
+
+export function validStopRange(obj: any): obj is StopRange {
+  return stopRangeProblems(obj, "").length === 0;
+}
+
+export function validStopAnchor(obj: any): obj is StopAnchor {
+  return stopAnchorProblems(obj, "").length === 0;
+}
+
+export function validStopLocation(obj: any): obj is StopLocation {
+  return stopLocationProblems(obj, "").length === 0;
 }
 
 export function validRepoState(obj: any): obj is RepoState {
-  try {
-    return [
-      typeof obj.repository === "string",
-      typeof obj.commit === "string",
-    ].reduce((x, y) => x && y, true);
-  } catch (_) {
-    return false;
+  return repoStateProblems(obj, "").length === 0;
+}
+
+/**
+ * Lists everything that stops `obj` from being a valid tour file, such as
+ * `stops[3].line must be a number` or `repositories[0].commit missing`. An
+ * empty list means the tour file is valid.
+ *
+ * @param obj The parsed tour file.
+ */
+export function validateTourFile(obj: any): string[] {
+  return check(obj, "", "object", false, (tf, path) => [
+    ...check(tf.protocolVersion, at(path, "protocolVersion"), "string"),
+    ...check(tf.id, at(path, "id"), "string"),
+    ...check(tf.title, at(path, "title"), "string"),
+    ...check(tf.description, at(path, "description"), "string"),
+    ...check(tf.version, at(path, "version"), "string"),
+    ...check(tf.generator, at(path, "generator"), "number", true),
+    ...each(tf.stops, at(path, "stops"), tourStopProblems),
+    ...each(tf.repositories, at(path, "repositories"), repoStateProblems),
+  ]);
+}
+
+/**
+ * Lists everything that stops `obj` from being a stop that can be added to a
+ * tour, in the same form as `validateTourFile`.
+ *
+ * @param obj The stop, as passed to `add`.
+ */
+export function validateAbsoluteTourStop(obj: any): string[] {
+  return check(obj, "stop", "object", false, (stop) => [
+    ...check(stop.id, "stop.id", "string", true),
+    ...check(stop.absPath, "stop.absPath", "string"),
+    ...check(stop.title, "stop.title", "string"),
+    ...check(stop.body, "stop.body", "string", true),
+    ...check(stop.line, "stop.line", "number"),
+    ...stopRangeProblems(stop, "stop"),
+    ...check(stop.symbol, "stop.symbol", "string", true),
+    ...check(stop.trackSymbol, "stop.trackSymbol", "boolean", true),
+    ...each(stop.childStops, "stop.childStops", childStopProblems),
+  ]);
+}
+
+/**
+ * Lists everything that stops `obj` from being a location to move a stop to,
+ * in the same form as `validateTourFile`.
+ *
+ * @param obj The location, as passed to `move`.
+ */
+export function validateTourStopPos(obj: any): string[] {
+  return check(obj, "stopPos", "object", false, (pos) => [
+    ...check(pos.absPath, "stopPos.absPath", "string"),
+    ...check(pos.line, "stopPos.line", "number"),
+    ...stopRangeProblems(pos, "stopPos"),
+  ]);
+}
+
+/* The problem checkers below follow the same pattern: given a value and its
+ * path in the tour file, they return a list of problems, each starting with
+ * the path of the offending value.
+ */
+
+function repoStateProblems(obj: any, path: string): string[] {
+  return check(obj, path, "object", false, (st) => [
+    ...check(st.repository, at(path, "repository"), "string"),
+    ...check(st.commit, at(path, "commit"), "string"),
+    ...check(st.vcs, at(path, "vcs"), "string", true),
+  ]);
+}
+
+function tourStopProblems(obj: any, path: string): string[] {
+  return check(obj, path, "object", false, (stop) => [
+    ...check(stop.id, at(path, "id"), "string"),
+    ...check(stop.title, at(path, "title"), "string"),
+    ...check(stop.body, at(path, "body"), "string", true),
+    ...check(stop.line, at(path, "line"), "number"),
+    ...stopRangeProblems(stop, path),
+    ...check(stop.relPath, at(path, "relPath"), "string"),
+    ...check(stop.repository, at(path, "repository"), "string"),
+    ...each(stop.childStops, at(path, "childStops"), childStopProblems),
+    ...(stop.anchor === undefined
+      ? []
+      : stopAnchorProblems(stop.anchor, at(path, "anchor"))),
+    ...check(stop.symbol, at(path, "symbol"), "string", true),
+    ...(stop.lastKnown === undefined
+      ? []
+      : stopLocationProblems(stop.lastKnown, at(path, "lastKnown"))),
+  ]);
+}
+
+function stopRangeProblems(obj: any, path: string): string[] {
+  return check(obj, path, "object", false, (range) => [
+    ...check(range.endLine, at(path, "endLine"), "number", true),
+    ...check(range.column, at(path, "column"), "number", true),
+    ...check(range.endColumn, at(path, "endColumn"), "number", true),
+  ]);
+}
+
+function childStopProblems(obj: any, path: string): string[] {
+  return check(obj, path, "object", false, (child) => [
+    ...check(child.tourId, at(path, "tourId"), "string"),
+    ...check(child.stopNum, at(path, "stopNum"), "number"),
+  ]);
+}
+
+function stopAnchorProblems(obj: any, path: string): string[] {
+  const line = (x: any, p: string) => check(x, p, "string");
+  return check(obj, path, "object", false, (anchor) => [
+    ...each(anchor.before, at(path, "before"), line),
+    ...check(anchor.target, at(path, "target"), "string"),
+    ...each(anchor.after, at(path, "after"), line),
+  ]);
+}
+
+function stopLocationProblems(obj: any, path: string): string[] {
+  return check(obj, path, "object", false, (loc) => [
+    ...check(loc.repository, at(path, "repository"), "string"),
+    ...check(loc.relPath, at(path, "relPath"), "string"),
+    ...check(loc.line, at(path, "line"), "number"),
+    ...check(loc.endLine, at(path, "endLine"), "number", true),
+    ...check(loc.commit, at(path, "commit"), "string"),
+  ]);
+}
+
+/* Checks that `value` has the right type. If it's an object, `inner` checks
+ * its contents.
+ */
+function check(
+  value: any,
+  path: string,
+  type: "string" | "number" | "boolean" | "object",
+  optional: boolean = false,
+  inner?: (value: any, path: string) => string[],
+): string[] {
+  const name = path || "tour file";
+  if (value === undefined) {
+    return optional ? [] : [`${name} missing`];
+  }
+  if (
+    typeof value !== type ||
+    (type === "object" && (value === null || Array.isArray(value)))
+  ) {
+    return [`${name} must be ${type === "object" ? "an" : "a"} ${type}`];
   }
+  return inner ? inner(value, path) : [];
+}
+
+/* Checks that `value` is an array, and checks each of its elements. */
+function each(
+  value: any,
+  path: string,
+  inner: (value: any, path: string) => string[],
+): string[] {
+  if (value === undefined) {
+    return [`${path} missing`];
+  }
+  if (!Array.isArray(value)) {
+    return [`${path} must be an array`];
+  }
+  const problems: string[] = [];
+  value.forEach((x, i) => problems.push(...inner(x, `${path}[${i}]`)));
+  return problems;
+}
+
+function at(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
 }
 
 export class TouristError extends Error {
@@ -110,12 +373,21 @@ export class TouristError extends Error {
   public message: string;
 
   public repoName?: string;
+  public causes?: TouristError[];
+  /* For an invalid tour file, everything that's wrong with it. */
+  public problems?: string[];
 
-  constructor(code: number, message: string, repoName?: string) {
+  constructor(
+    code: number,
+    message: string,
+    repoName?: string,
+    causes?: TouristError[],
+  ) {
     super(message);
     Object.setPrototypeOf(this, TouristError.prototype);
     this.code = code;
     this.message = message;
     this.repoName = repoName;
+    this.causes = causes;
   }
 }
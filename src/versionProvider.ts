@@ -1,11 +1,18 @@
 import child_process from "child_process";
 import parseDiff from "parse-diff";
-import util from "util";
+import * as pathutil from "path";
+import readline from "readline";
+import { Readable } from "stream";
 import { AbsolutePath, RelativePath } from "./paths";
 import { FileChanges } from "./fileChanges";
-
-// This is sort of a hack, but it works
-const exec = (util as any).promisify(child_process.exec);
+import { TouristError } from "./types";
+import {
+  DiffCache,
+  DiffCacheKey,
+  DiffCacheStore,
+  DirectoryStore,
+  WORKING_COPY,
+} from "./diffCache";
 
 export function pathsEqual(path1: string, path2: string) {
   const norm1 = path1.replace(/\\/g, "/");
@@ -13,30 +20,102 @@ export function pathsEqual(path1: string, path2: string) {
   return norm1 === norm2;
 }
 
-/* The application currently uses `child_process.exec` to call git, which means
- * that the output of the git script is buffered by node. This is not ideal, so
- * we plan to switch to `child_process.spawn`, but until then we need to pick a
- * buffer size.
- *
- * 10 Mb felt reasonable. We don't really have justification beyond that.
+/* Git quotes paths containing unusual characters (quotes, control characters,
+ * non-ASCII bytes) and escapes them C-style. parse-diff leaves those as-is, so
+ * we undo the quoting ourselves.
  */
-const BUFFER_SIZE = 1024 * 1024 * 10;
+function unquotePath(path: string): string {
+  const quoted = /^"(.*)"$/.exec(path);
+  if (!quoted) {
+    return path;
+  }
+  const escapes: { [c: string]: number } = {
+    a: 7,
+    b: 8,
+    f: 12,
+    n: 10,
+    r: 13,
+    t: 9,
+    v: 11,
+  };
+  const bytes: Buffer[] = [];
+  const inner = quoted[1];
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] !== "\\") {
+      bytes.push(Buffer.from(inner[i]));
+    } else if (/[0-7]{3}/.test(inner.substr(i + 1, 3))) {
+      bytes.push(Buffer.from([parseInt(inner.substr(i + 1, 3), 8)]));
+      i += 3;
+    } else {
+      i++;
+      const c = inner[i];
+      bytes.push(
+        escapes[c] !== undefined ? Buffer.from([escapes[c]]) : Buffer.from(c),
+      );
+    }
+  }
+  return Buffer.concat(bytes)
+    .toString()
+    .replace(/^[ab]\//, "");
+}
 
 export interface VersionProvider {
   getCurrentVersion(path: AbsolutePath): Promise<string | null>;
+  /* Turns a name for a version (e.g. a tag or branch) into a version. */
+  resolveVersion(ref: string, path: AbsolutePath): Promise<string | null>;
+  /* Changes between `version` and `target`, or the current version if no
+   * target is given.
+   */
   getChangesForFile(
     version: string,
     path: RelativePath,
     repoPath: AbsolutePath,
+    target?: string,
   ): Promise<FileChanges | null>;
   getDirtyChangesForFile(
     version: string,
     path: RelativePath,
     repoPath: AbsolutePath,
   ): Promise<FileChanges | null>;
+  /* Batched versions of the above, returning changes in the order of `paths`.
+   * Tourist uses these to make one request per repository.
+   */
+  getChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<Array<FileChanges | null>>;
+  getDirtyChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<Array<FileChanges | null>>;
+  getFileContents(
+    version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<string | null>;
+  /* The paths of every file in the repository at `version`. */
+  listFiles(version: string, repoPath: AbsolutePath): Promise<string[] | null>;
+  /* Called when `version` is recorded in a tour file, for providers that have
+   * to keep a copy of a version to use it later.
+   */
+  pinVersion?(version: string, repoPath: AbsolutePath): Promise<void>;
 }
 
 export class GitProvider implements VersionProvider {
+  /* If set, diffs between commits are also cached on disk, in
+   * `.git/tourist-cache`.
+   */
+  public persistentCache: boolean;
+  private stores: Map<string, DiffCacheStore | undefined>;
+
+  constructor(persistentCache: boolean = false) {
+    this.persistentCache = persistentCache;
+    this.stores = new Map();
+  }
+
   public async getCurrentVersion(path: AbsolutePath): Promise<string | null> {
     try {
       const commit = await this.git(path, "rev-parse", ["HEAD"]);
@@ -46,17 +125,64 @@ export class GitProvider implements VersionProvider {
     }
   }
 
+  public async resolveVersion(
+    ref: string,
+    path: AbsolutePath,
+  ): Promise<string | null> {
+    try {
+      const commit = await this.git(path, "rev-parse", [
+        "--verify",
+        "--quiet",
+        `${ref}^{commit}`,
+      ]);
+      return commit.trim() || null;
+    } catch (_) {
+      return null;
+    }
+  }
+
+  public async getFileContents(
+    commit: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<string | null> {
+    try {
+      return await this.git(repoPath, "show", [`${commit}:${path.path}`]);
+    } catch (_) {
+      return null;
+    }
+  }
+
+  public async listFiles(
+    commit: string,
+    repoPath: AbsolutePath,
+  ): Promise<string[] | null> {
+    try {
+      const files = await this.git(repoPath, "ls-tree", [
+        "-r",
+        "--name-only",
+        "-z",
+        commit,
+      ]);
+      return files.split("\0").filter((file) => file);
+    } catch (_) {
+      return null;
+    }
+  }
+
   public async git(
     path: AbsolutePath,
     command: string,
     args: string[],
   ): Promise<string> {
-    const fullCommand = `git -C ${path.path} ${command} ${args.join(" ")}`;
-    const res = await exec(fullCommand, { maxBuffer: BUFFER_SIZE });
-    if (res.stderr && !res.stderr.startsWith("warning: LF")) {
-      throw new Error(res.stderr);
-    }
-    return res.stdout;
+    return await runCommand("git", ["-C", path.path, command, ...args]);
+  }
+
+  public async gitDiff(
+    path: AbsolutePath,
+    args: string[],
+  ): Promise<parseDiff.File[]> {
+    return await runDiff("git", ["-C", path.path, "diff", ...args]);
   }
 
   public async getDirtyChangesForFile(
@@ -64,146 +190,278 @@ export class GitProvider implements VersionProvider {
     path: RelativePath,
     repoPath: AbsolutePath,
   ): Promise<FileChanges | null> {
-    return await this.getGenericChangesForFile(commit, path, repoPath, true);
+    return (await this.getDirtyChangesForFiles(commit, [path], repoPath))[0];
   }
 
   public async getChangesForFile(
     commit: string,
     path: RelativePath,
     repoPath: AbsolutePath,
+    target?: string,
   ): Promise<FileChanges | null> {
-    return await this.getGenericChangesForFile(commit, path, repoPath, false);
+    return (await this.getChangesForFiles(commit, [path], repoPath, target))[0];
   }
 
-  private async getGenericChangesForFile(
+  public async getDirtyChangesForFiles(
     commit: string,
-    path: RelativePath,
+    paths: RelativePath[],
     repoPath: AbsolutePath,
-    includeWorkingCopy: boolean,
-  ): Promise<FileChanges | null> {
-    let files: parseDiff.File[];
+  ): Promise<Array<FileChanges | null>> {
+    return await this.getGenericChangesForFiles(
+      [commit],
+      { repoPath, commit, mode: WORKING_COPY },
+      paths,
+    );
+  }
 
-    const cache = DiffCache.getInstance();
-    const cachedFiles = cache.load({ commit, repoPath, includeWorkingCopy });
-    if (cachedFiles) {
-      files = cachedFiles;
-    } else {
-      const diff = await (includeWorkingCopy
-        ? this.diffWithWorkingCopy(commit, repoPath)
-        : this.diffWithHead(commit, repoPath));
-      files = parseDiff(diff);
+  public async getChangesForFiles(
+    commit: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+    target?: string,
+  ): Promise<Array<FileChanges | null>> {
+    // Pin down exactly which commit we're diffing to, so the result can be
+    // cached
+    const to = await this.resolveVersion(target || "HEAD", repoPath);
+    if (!to) {
+      throw new TouristError(
+        206,
+        `Could not find version ${target || "HEAD"} in repository ` +
+          `${repoPath.path}.`,
+      );
     }
-
-    const file = files.find((f) =>
-      f.from ? pathsEqual(f.from, path.path) : false,
+    return await this.getGenericChangesForFiles(
+      [commit, to],
+      { repoPath, commit, mode: `..${to}` },
+      paths,
     );
+  }
 
-    const moves = new Map();
-    const additions = [] as number[];
-    const deletions = [] as number[];
+  /* Diffs only the given paths (plus wherever they were renamed to or from),
+   * rather than the whole repository. This takes two git invocations no matter
+   * how many paths there are.
+   */
+  private async getGenericChangesForFiles(
+    revisions: string[],
+    key: DiffCacheKey,
+    paths: RelativePath[],
+  ): Promise<Array<FileChanges | null>> {
+    return await DiffCache.getInstance().lookup(
+      key,
+      paths,
+      (missing) => this.diffFiles(revisions, missing, key.repoPath),
+      await this.storeFor(key.repoPath),
+    );
+  }
 
-    if (file === undefined || !pathsEqual(file.from!, path.path)) {
-      return new FileChanges(additions, deletions, moves, path.path);
+  private async diffFiles(
+    revisions: string[],
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<FileChanges[]> {
+    const pathspecs = paths
+      .map((path) => path.path)
+      .filter((path) => path !== "");
+    if (pathspecs.length === 0) {
+      return paths.map((path) => new FileChanges([], [], new Map(), path.path));
     }
 
-    for (const chunk of await file.chunks) {
-      for (const change of await chunk.changes) {
-        switch (change.type) {
-          case "add":
-            if (!additions.find((x) => change.ln === x)) {
-              additions.push(change.ln);
-            }
-            break;
-          case "del":
-            if (!deletions.find((x) => change.ln === x)) {
-              deletions.push(change.ln);
-            }
-            break;
-          case "normal":
-            moves.set(change.ln1, change.ln2);
-            break;
-        }
+    // Git can only pair up a rename if both sides are in the diff
+    for (const [from, to] of await this.findRenames(revisions, repoPath)) {
+      if (pathspecs.includes(from) && !pathspecs.includes(to)) {
+        pathspecs.push(to);
+      } else if (pathspecs.includes(to) && !pathspecs.includes(from)) {
+        pathspecs.push(from);
       }
     }
 
-    return new FileChanges(additions, deletions, moves, file.to || file.from!);
-  }
-
-  private async diffWithHead(
-    commit: string,
-    repoPath: AbsolutePath,
-  ): Promise<string> {
-    return this.git(repoPath, "diff", [
+    const files = await this.gitDiff(repoPath, [
       "--minimal",
       "--ignore-space-at-eol",
       "-M",
-      `${commit}...`,
+      ...revisions,
       "--",
-      ".",
+      ...pathspecs.map((path) => `:(literal)${path}`),
     ]);
+    return paths.map((path) => fileChangesFromDiff(files, path));
   }
 
-  private async diffWithWorkingCopy(
-    commit: string,
+  private async findRenames(
+    revisions: string[],
     repoPath: AbsolutePath,
-  ): Promise<string> {
-    return this.git(repoPath, "diff", [
-      "--minimal",
-      "--ignore-space-at-eol",
+  ): Promise<Array<[string, string]>> {
+    const output = await this.git(repoPath, "diff", [
+      "--name-status",
+      "-z",
       "-M",
-      `${commit}`,
-      "--",
-      ".",
+      "--diff-filter=R",
+      ...revisions,
     ]);
-  }
-}
 
-export class DiffCache {
-  public static getInstance() {
-    if (!DiffCache.instance) {
-      DiffCache.instance = new DiffCache();
+    // Output looks like "R100\0from\0to\0R087\0from\0to\0..."
+    const fields = output.split("\0");
+    const renames: Array<[string, string]> = [];
+    for (let i = 0; i + 2 < fields.length; i += 3) {
+      renames.push([fields[i + 1], fields[i + 2]]);
     }
-    return DiffCache.instance;
-  }
-  private static instance: DiffCache;
-  private cache: Map<
-    {
-      commit: string;
-      repoPath: AbsolutePath;
-      includeWorkingCopy: boolean;
-    },
-    parseDiff.File[]
-  > | null;
-  private constructor() {
-    this.cache = null;
-  }
-  public start() {
-    this.cache = new Map();
-  }
-  public load(args: {
-    commit: string;
-    repoPath: AbsolutePath;
-    includeWorkingCopy: boolean;
-  }): parseDiff.File[] | undefined {
-    if (this.cache === null) {
+    return renames;
+  }
+
+  private async storeFor(
+    repoPath: AbsolutePath,
+  ): Promise<DiffCacheStore | undefined> {
+    if (!this.persistentCache) {
       return undefined;
     }
-    return this.cache.get(args);
+    if (!this.stores.has(repoPath.path)) {
+      let store: DiffCacheStore | undefined;
+      try {
+        const gitDir = await this.git(repoPath, "rev-parse", [
+          "--git-common-dir",
+        ]);
+        store = new DirectoryStore(
+          pathutil.join(
+            pathutil.resolve(repoPath.path, gitDir.trim()),
+            "tourist-cache",
+          ),
+        );
+      } catch (_) {
+        store = undefined;
+      }
+      this.stores.set(repoPath.path, store);
+    }
+    return this.stores.get(repoPath.path);
   }
-  public save(
-    args: {
-      commit: string;
-      repoPath: AbsolutePath;
-      includeWorkingCopy: boolean;
+}
+
+/* Spawns a process with an argument array, so nothing is ever interpreted by a
+ * shell. `onStdout` is given the output stream before any data arrives.
+ */
+function spawnProcess(
+  command: string,
+  args: string[],
+  onStdout: (stdout: Readable) => void,
+  env?: NodeJS.ProcessEnv,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = child_process.spawn(command, args, { env });
+    const stderr: Buffer[] = [];
+    proc.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    onStdout(proc.stdout);
+    proc.on("error", reject);
+    proc.on("close", (code: number) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(Buffer.concat(stderr).toString()));
+      }
+    });
+  });
+}
+
+/**
+ * Runs a command and returns its output. Throws if the command fails.
+ */
+export async function runCommand(
+  command: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  await spawnProcess(
+    command,
+    args,
+    (stdout) => {
+      stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
     },
-    val: parseDiff.File[],
-  ) {
-    if (this.cache === null) {
-      return;
+    env,
+  );
+  return Buffer.concat(chunks).toString();
+}
+
+/**
+ * Runs a command that prints a unified diff, parsing the output one file at a
+ * time as it comes in, so that we never need to hold the entire diff as a
+ * string.
+ */
+export async function runDiff(
+  command: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<parseDiff.File[]> {
+  const files: parseDiff.File[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) {
+      for (const file of parseDiff(current.join("\n"))) {
+        file.from = file.from && unquotePath(file.from);
+        file.to = file.to && unquotePath(file.to);
+        files.push(file);
+      }
+      current = [];
     }
-    this.cache.set(args, val);
+  };
+
+  await spawnProcess(
+    command,
+    args,
+    (stdout) => {
+      const lines = readline.createInterface({
+        input: stdout,
+        crlfDelay: Infinity,
+      });
+      lines.on("line", (line: string) => {
+        if (line.startsWith("diff ")) {
+          flush();
+        }
+        current.push(line);
+      });
+    },
+    env,
+  );
+  flush();
+
+  return files;
+}
+
+/**
+ * Finds the changes to `path` in a parsed diff.
+ */
+export function fileChangesFromDiff(
+  files: parseDiff.File[],
+  path: RelativePath,
+): FileChanges {
+  const file = files.find((f) =>
+    f.from ? pathsEqual(f.from, path.path) : false,
+  );
+
+  const moves = new Map();
+  const additions = [] as number[];
+  const deletions = [] as number[];
+
+  if (file === undefined || !pathsEqual(file.from!, path.path)) {
+    return new FileChanges(additions, deletions, moves, path.path);
   }
-  public invalidate() {
-    this.cache = null;
+
+  for (const chunk of file.chunks) {
+    for (const change of chunk.changes) {
+      switch (change.type) {
+        case "add":
+          if (!additions.find((x) => change.ln === x)) {
+            additions.push(change.ln);
+          }
+          break;
+        case "del":
+          if (!deletions.find((x) => change.ln === x)) {
+            deletions.push(change.ln);
+          }
+          break;
+        case "normal":
+          moves.set(change.ln1, change.ln2);
+          break;
+      }
+    }
   }
+
+  return new FileChanges(additions, deletions, moves, file.to || file.from!);
 }
@@ -0,0 +1,194 @@
+import chai from "chai";
+import fs from "fs-extra";
+import { suite, test } from "mocha";
+import os from "os";
+import * as pathutil from "path";
+import { main } from "../src/cli";
+import { AbsolutePath } from "../src/paths";
+import { GitProvider } from "../src/versionProvider";
+
+/**
+ * Tests for the command-line tool.
+ */
+
+const expect = chai.expect;
+
+const outputDir = pathutil.join(os.tmpdir(), "tourist-test-out");
+const repoDir = pathutil.join(outputDir, "repo");
+const configPath = pathutil.join(outputDir, "config.json");
+const tourPath = pathutil.join(outputDir, "my.tour");
+
+/* Runs the tool against the test config, capturing what it prints. */
+async function run(
+  ...argv: string[]
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = "";
+  let stderr = "";
+  const code = await main([...argv, "--config", configPath], {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+suite("cli", () => {
+  before("make sure we're in a clean state", async () => {
+    await fs.remove(outputDir);
+  });
+
+  after("make sure we clean up", async () => {
+    await fs.remove(outputDir);
+  });
+
+  beforeEach("create a repository", async () => {
+    await fs.mkdirs(repoDir);
+    const gp = new GitProvider();
+    const repository = new AbsolutePath(repoDir);
+    await gp.git(repository, "init", []);
+    await fs.writeFile(pathutil.join(repoDir, "my-file.txt"), "One\nTwo\n");
+    await gp.git(repository, "add", ["-A"]);
+    await gp.git(repository, "commit", ["-m", "Initial commit"]);
+  });
+
+  afterEach("remove directories", async () => {
+    await fs.remove(outputDir);
+  });
+
+  test("repository mappings are persisted", async () => {
+    expect((await run("map", "repo", repoDir)).code).to.equal(0);
+    const config = JSON.parse(await fs.readFile(configPath, "utf8"));
+    expect(config.repo).to.equal(repoDir + pathutil.sep);
+
+    const { stdout } = await run("config", "--json");
+    expect(JSON.parse(stdout)).to.deep.equal(config);
+
+    await run("unmap", "repo");
+    expect(JSON.parse((await run("config", "--json")).stdout)).to.deep.equal(
+      {},
+    );
+  });
+
+  test("build and resolve a tour", async () => {
+    await run("map", "repo", repoDir);
+    expect((await run("init", tourPath, "--title", "My Tour")).code).to.equal(
+      0,
+    );
+
+    const file = pathutil.join(repoDir, "my-file.txt");
+    const added = await run(
+      "add",
+      tourPath,
+      file,
+      "2",
+      "--title",
+      "Second",
+      "--json",
+    );
+    expect(added.code).to.equal(0);
+    expect(JSON.parse(added.stdout)).to.deep.equal({ id: "My Tour:0" });
+
+    await run("edit", tourPath, "My Tour:0", "--body", "The second line");
+    const resolved = await run("resolve", tourPath, "--json");
+    expect(JSON.parse(resolved.stdout).stops).to.deep.equal([
+      {
+        id: "My Tour:0",
+        title: "Second",
+        body: "The second line",
+        absPath: file,
+        line: 2,
+        childStops: [],
+      },
+    ]);
+
+    const validated = await run("validate", tourPath);
+    expect(validated.code).to.equal(0);
+    expect(validated.stdout).to.equal(`${tourPath}: ok\n`);
+
+    const checked = await run("check", tourPath);
+    expect(checked.code).to.equal(0);
+    expect(checked.stdout).to.equal(`${tourPath}: ok\n`);
+    await run("link", tourPath, "My Tour:0", "Elsewhere", "0");
+    const failed = await run("check", tourPath);
+    expect(failed.code).to.equal(4);
+    expect(failed.stdout).to.equal(
+      `${tourPath}: error MissingTour: Stop My Tour:0 links to tour ` +
+        "Elsewhere, which wasn't found.\n",
+    );
+
+    const exported = await run("export", tourPath);
+    expect(exported.stdout).to.include("## 1. Second");
+  });
+
+  test("merge tour files like a git merge driver", async () => {
+    await run("map", "repo", repoDir);
+    await run("init", tourPath, "--title", "My Tour");
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await run("add", tourPath, file, "1", "--title", "First");
+    const basePath = pathutil.join(outputDir, "base.tour");
+    const theirPath = pathutil.join(outputDir, "theirs.tour");
+    await fs.copy(tourPath, basePath);
+    await fs.copy(tourPath, theirPath);
+
+    await run("edit", tourPath, "My Tour:0", "--title", "Ours");
+    await run("add", theirPath, file, "2", "--title", "Second");
+    const merged = await run("merge", basePath, tourPath, theirPath);
+    expect(merged.code).to.equal(0);
+    const resolved = JSON.parse(
+      (await run("resolve", tourPath, "--json")).stdout,
+    );
+    expect(resolved.stops.map((s: any) => s.title)).to.deep.equal([
+      "Ours",
+      "Second",
+    ]);
+    const diffed = await run("diff", basePath, tourPath);
+    expect(diffed.stdout).to.equal(
+      `- Added stop "Second" at position 2\n` +
+        `- Renamed stop "First" to "Ours"\n`,
+    );
+
+    await run("edit", theirPath, "My Tour:0", "--title", "Theirs");
+    const conflicted = await run(
+      "merge",
+      basePath,
+      tourPath,
+      theirPath,
+      "--json",
+    );
+    expect(conflicted.code).to.equal(3);
+    expect(JSON.parse(conflicted.stdout).conflicts[0]).to.include({
+      field: "title",
+      stopId: "My Tour:0",
+    });
+
+    const ourText = await fs.readFile(tourPath, "utf8");
+    await fs.writeFile(basePath, "");
+    expect((await run("merge", basePath, tourPath, theirPath)).code).to.equal(
+      1,
+    );
+    await fs.remove(basePath);
+    expect((await run("merge", basePath, tourPath, theirPath)).code).to.equal(
+      1,
+    );
+    expect(await fs.readFile(tourPath, "utf8")).to.equal(ourText);
+  });
+
+  test("errors set the exit code", async () => {
+    await run("init", tourPath);
+
+    const removed = await run("remove", tourPath, "nope", "--json");
+    expect(removed.code).to.equal(10);
+    expect(JSON.parse(removed.stderr).error.code).to.equal(0);
+
+    await fs.writeFile(tourPath, JSON.stringify({ title: 3 }));
+    const validated = await run("validate", tourPath, "--json");
+    expect(validated.code).to.equal(14);
+    expect(JSON.parse(validated.stdout)[0].problems).to.deep.equal([
+      "title must be a string",
+      "stops must be an array",
+      "repositories must be an array",
+    ]);
+
+    expect((await run("frobnicate")).code).to.equal(2);
+    expect((await run("add", tourPath)).code).to.equal(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { TourFile, TourStop } from "../src/types";
+
+/**
+ * Tour files and stops for tests that don't need a real repository.
+ */
+
+/* The commit that tours made with `tour` start at. */
+export const COMMIT = "0123456789abcdef";
+
+export function stop(n: number, fields: Partial<TourStop> = {}): TourStop {
+  return {
+    id: `Tour:${n}`,
+    title: `Stop ${n}`,
+    body: `Body ${n}`,
+    relPath: "my-file.txt",
+    repository: "repo",
+    line: n + 1,
+    childStops: [],
+    ...fields,
+  };
+}
+
+export function tour(
+  stops: TourStop[],
+  fields: Partial<TourFile> = {},
+): TourFile {
+  return {
+    protocolVersion: "1.0",
+    id: "Tour",
+    title: "Tour",
+    description: "",
+    version: "0.10.0",
+    generator: 3,
+    repositories: [{ repository: "repo", commit: COMMIT }],
+    stops,
+    ...fields,
+  };
+}
@@ -7,6 +7,7 @@ import * as pathutil from "path";
 import { Tourist } from "..";
 import { AbsolutePath, RelativePath } from "../src/paths";
 import { GitProvider } from "../src/versionProvider";
+import { DiffCache } from "../src/diffCache";
 import {
   AbsoluteTourStop,
   isNotBroken,
@@ -34,7 +35,7 @@ suite("git-provider", () => {
 
   async function commitToRepo(message: string): Promise<string> {
     await gp.git(repository, "add", ["-A"]);
-    await gp.git(repository, "commit", [`-m "${message}"`]);
+    await gp.git(repository, "commit", ["-m", message]);
     return await gp
       .git(repository, "rev-parse", ["HEAD"])
       .then((x) => x.trim());
@@ -161,6 +162,94 @@ suite("git-provider", () => {
     expect(changes!.name).to.equal("other-file.txt");
   });
 
+  test("paths are never interpreted by a shell", async () => {
+    const oddName = `it's a "file".txt`;
+    const oddFile = pathutil.join(repoDir, oddName);
+    fs.writeFileSync(oddFile, "Hello, world!");
+    const commit = await commitToRepo("Initial commit");
+    fs.writeFileSync(oddFile, "Line before\nHello, world!");
+    await commitToRepo("Second commit");
+
+    const changes = await gp.getChangesForFile(
+      commit,
+      new RelativePath("repo", oddName),
+      new AbsolutePath(repoDir),
+    );
+
+    expect(changes).to.not.be.a("null");
+    expect(changes!.additions).to.deep.equal([1]);
+    expect(changes!.moves.get(1)).to.equal(2);
+  });
+
+  test("changes for several files are computed together", async () => {
+    const movedName = "moved-file.txt";
+    const untouchedName = "untouched-file.txt";
+    const otherName = "other-file.txt";
+    fs.writeFileSync(file, "Hello, world!\nOne\nTwo\nThree");
+    fs.writeFileSync(pathutil.join(repoDir, untouchedName), "Untouched");
+    fs.writeFileSync(pathutil.join(repoDir, otherName), "Not in the tour");
+    const commit = await commitToRepo("Initial commit");
+
+    await fs.rename(file, pathutil.join(repoDir, movedName));
+    fs.writeFileSync(
+      pathutil.join(repoDir, movedName),
+      "Line before\nHello, world!\nOne\nTwo\nThree",
+    );
+    fs.writeFileSync(pathutil.join(repoDir, otherName), "Changed");
+    await commitToRepo("Second commit");
+
+    const changes = await gp.getChangesForFiles(
+      commit,
+      [
+        new RelativePath("repo", fileName),
+        new RelativePath("repo", untouchedName),
+      ],
+      new AbsolutePath(repoDir),
+    );
+
+    expect(changes.length).to.equal(2);
+    expect(changes[0]!.name).to.equal(movedName);
+    expect(changes[0]!.computeDelta(1)).to.equal(2);
+    expect(changes[1]!.name).to.equal(untouchedName);
+    expect(changes[1]!.additions).to.deep.equal([]);
+    expect(changes[1]!.deletions).to.deep.equal([]);
+  });
+
+  test("diffs between commits are cached on disk", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const commit = await commitToRepo("Initial commit");
+    await fs.writeFile(file, "Line before\nHello, world!");
+    await commitToRepo("Second commit");
+
+    const cachingProvider = new GitProvider(true);
+    const path = new RelativePath("repo", fileName);
+    const changes = await cachingProvider.getChangesForFile(
+      commit,
+      path,
+      repository,
+    );
+    expect(changes!.computeDelta(1)).to.equal(2);
+
+    const cacheDir = pathutil.join(repoDir, ".git", "tourist-cache");
+    const entries = await fs.readdir(cacheDir);
+    expect(entries.length).to.equal(1);
+
+    // Make sure the next lookup comes from disk, rather than git or memory
+    const entry = pathutil.join(cacheDir, entries[0]);
+    const cached = JSON.parse(await fs.readFile(entry, "UTF-8"));
+    await fs.writeFile(entry, JSON.stringify({ ...cached, name: "cached" }));
+    DiffCache.getInstance().clear();
+
+    const cachedChanges = await cachingProvider.getChangesForFile(
+      commit,
+      path,
+      repository,
+    );
+    expect(cachedChanges!.name).to.equal("cached");
+    expect(cachedChanges!.computeDelta(1)).to.equal(2);
+    DiffCache.getInstance().clear();
+  });
+
   test("serde git tour file", async () => {
     await fs.writeFile(file, "Hello, world!");
     await commitToRepo("Initial commit");
@@ -321,6 +410,12 @@ suite("git-provider", () => {
 
     const tf = await tourist.init();
     await tourist.add(tf, stop, null);
+    // The anchor describes the committed lines, like the stop's location
+    expect(tf.stops[0].anchor).to.deep.equal({
+      before: [],
+      target: "Hello, world!",
+      after: ["Goodbye world!"],
+    });
 
     {
       const tour = await tourist.resolve(tf);
@@ -333,6 +428,12 @@ suite("git-provider", () => {
       const tour = await tourist.resolve(tf);
       expect((tour.stops[0] as AbsoluteTourStop).line).to.equal(1);
     }
+
+    fs.writeFileSync(file, "Intro\nHello, world!\nGoodbye world!");
+    await commitToRepo("Add an intro");
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].line).to.equal(2);
+    expect(tf.stops[0].anchor!.before).to.deep.equal(["Intro"]);
   });
 
   test("deleting a stop's line results in BrokenTourStop", async () => {
@@ -377,6 +478,366 @@ suite("git-provider", () => {
     }
   });
 
+  test("line ranges map both ends", async () => {
+    fs.writeFileSync(file, "one\nfunction f() {\n  a();\n  b();\n}\nsix");
+    await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const stop = {
+      absPath: file,
+      line: 2,
+      endLine: 5,
+      column: 1,
+      endColumn: 2,
+      title: "f",
+      childStops: [],
+    };
+
+    const tf = await tourist.init();
+    await tourist.add(tf, stop, null);
+
+    fs.writeFileSync(
+      file,
+      "zero\none\nfunction f() {\n  a();\n  a2();\n  b();\n}\nsix",
+    );
+    {
+      const tour = await tourist.resolve(tf);
+      const resolved = tour.stops[0] as AbsoluteTourStop;
+      expect([resolved.line, resolved.endLine]).to.deep.equal([3, 7]);
+      expect([resolved.column, resolved.endColumn]).to.deep.equal([1, 2]);
+      expect(resolved.partiallyBroken).to.equal(undefined);
+    }
+
+    fs.writeFileSync(file, "one\n  a();\n  b();\nsix");
+    {
+      const tour = await tourist.resolve(tf);
+      const resolved = tour.stops[0] as AbsoluteTourStop;
+      expect([resolved.line, resolved.endLine]).to.deep.equal([2, 3]);
+      expect(resolved.column).to.equal(undefined);
+      expect(resolved.partiallyBroken).to.equal(true);
+    }
+
+    await commitToRepo("Inline f");
+    const report = await tourist.previewRefresh(tf, "repo");
+    expect(report.stops[0].to).to.deep.equal({
+      relPath: fileName,
+      line: 2,
+      endLine: 3,
+    });
+    expect(report.stops[0].partiallyBroken).to.equal(true);
+
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].line).to.equal(2);
+    expect(tf.stops[0].endLine).to.equal(3);
+    expect(tf.stops[0].column).to.equal(undefined);
+    expect(tf.stops[0].endColumn).to.equal(undefined);
+  });
+
+  test("stops follow their symbol to another file", async () => {
+    const oldFile = pathutil.join(repoDir, "old.ts");
+    const newFile = pathutil.join(repoDir, "new.ts");
+    fs.writeFileSync(
+      oldFile,
+      [
+        "export class Greeter {",
+        "  public greet(name: string) {",
+        "    return `Hello, ${name}`;",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+    await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const tf = await tourist.init();
+    await tourist.add(
+      tf,
+      {
+        absPath: oldFile,
+        title: "greet",
+        line: 3,
+        childStops: [],
+        trackSymbol: true,
+      },
+      null,
+    );
+    expect(tf.stops[0].symbol).to.equal("Greeter.greet");
+
+    fs.removeSync(oldFile);
+    fs.writeFileSync(
+      newFile,
+      [
+        "import { log } from './log';",
+        "",
+        "export class Greeter {",
+        "  private count = 0;",
+        "",
+        "  public greet(name: string) {",
+        "    this.count++;",
+        "    return `Hi there, ${name}!`;",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+    // Ignored build output declares the symbol too, but isn't searched
+    fs.writeFileSync(pathutil.join(repoDir, ".gitignore"), "build/\n");
+    fs.mkdirsSync(pathutil.join(repoDir, "build"));
+    fs.writeFileSync(
+      pathutil.join(repoDir, "build", "greeter.js"),
+      "class Greeter {\n  greet(name) {}\n}\n",
+    );
+    await commitToRepo("Move greeter");
+    {
+      const tour = await tourist.resolve(tf);
+      expect(tour.stops[0]).to.include({ absPath: newFile, line: 6 });
+    }
+
+    const report = await tourist.previewRefresh(tf, "repo");
+    expect(report.stops[0].rule).to.equal("symbol");
+    expect(report.stops[0].renamed).to.equal(true);
+
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].relPath).to.equal("new.ts");
+    expect(tf.stops[0].line).to.equal(6);
+  });
+
+  test("rewritten line is found by its anchor", async () => {
+    fs.writeFileSync(
+      file,
+      "import x;\n\nfunction add(a, b) {\n  return a + b;\n}",
+    );
+    await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const stop = {
+      absPath: file,
+      body: "Adds things",
+      line: 3,
+      title: "add",
+      childStops: [],
+    };
+
+    const tf = await tourist.init();
+    await tourist.add(tf, stop, null);
+
+    fs.writeFileSync(
+      file,
+      "import x;\n\n\nexport function add(a: number, b: number) {\n" +
+        "  return a + b;\n}",
+    );
+
+    {
+      const tour = await tourist.resolve(tf);
+      expect(isNotBroken(tour.stops[0])).to.equal(true);
+      expect((tour.stops[0] as AbsoluteTourStop).line).to.equal(4);
+    }
+
+    await commitToRepo("Reformat add");
+    await tourist.refresh(tf, "repo");
+
+    expect(tf.stops[0].line).to.equal(4);
+    expect(tf.stops[0].relPath).to.equal(fileName.replace(/\\/g, "/"));
+    expect(tf.stops[0].anchor!.target).to.equal(
+      "export function add(a: number, b: number) {",
+    );
+  });
+
+  test("broken stops remember their last known location", async () => {
+    fs.writeFileSync(file, "Above deleted\nDELETE ME\nBelow deleted");
+    const commit = await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const stop = {
+      absPath: file,
+      body: "This is about to be deleted",
+      line: 2,
+      title: "Delete me!",
+      childStops: [],
+    };
+
+    const tf = await tourist.init();
+    await tourist.add(tf, stop, null);
+
+    const lastKnown = {
+      repository: "repo",
+      relPath: fileName.replace(/\\/g, "/"),
+      line: 2,
+      commit,
+    };
+
+    fs.writeFileSync(file, "Above deleted\nBelow deleted");
+    await commitToRepo("Deleted tourstop");
+    await tourist.refresh(tf, "repo");
+
+    expect(tf.stops[0].line).to.equal(0);
+    expect(tf.stops[0].relPath).to.equal("");
+    expect(tf.stops[0].lastKnown).to.deep.equal(lastKnown);
+
+    fs.writeFileSync(file, "Something else entirely");
+    await commitToRepo("Another commit");
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].lastKnown).to.deep.equal(lastKnown);
+
+    const tour = await tourist.resolve(tf);
+    expect(isNotBroken(tour.stops[0])).to.equal(false);
+    expect((tour.stops[0] as BrokenTourStop).lastKnown).to.deep.equal(
+      lastKnown,
+    );
+
+    const newTf = tourist.deserializeTourFile(tourist.serializeTourFile(tf));
+    expect(newTf).to.deep.equal(tf);
+  });
+
+  test("previewing a refresh reports changes without applying them", async () => {
+    const otherFile = pathutil.join(repoDir, "other-file.txt");
+    fs.writeFileSync(file, "Hello, world!\nDELETE ME\nGoodbye, world!");
+    fs.writeFileSync(otherFile, "Some content");
+    const commit = await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const tf = await tourist.init();
+    const makeStop = (absPath: string, line: number) => ({
+      absPath,
+      body: "body",
+      line,
+      title: "title",
+      childStops: [],
+    });
+    await tourist.add(tf, makeStop(file, 1), null);
+    await tourist.add(tf, makeStop(file, 2), null);
+    await tourist.add(tf, makeStop(otherFile, 1), null);
+
+    fs.writeFileSync(file, "New line\nHello, world!\nGoodbye, world!");
+    await fs.rename(otherFile, pathutil.join(repoDir, "renamed-file.txt"));
+    const newCommit = await commitToRepo("Second commit");
+    // Older tour files marked broken stops without a last known location
+    const legacy = { ...tf.stops[0], id: "legacy", line: 0, relPath: "" };
+    tf.stops.push(legacy);
+
+    const before = JSON.parse(JSON.stringify(tf));
+    const report = await tourist.previewRefresh(tf, "repo");
+    expect(tf).to.deep.equal(before);
+
+    expect(report.fromCommit).to.equal(commit);
+    expect(report.toCommit).to.equal(newCommit);
+    expect(report.stops.map((st) => st.to && st.to.line)).to.deep.equal([
+      2,
+      null,
+      1,
+      null,
+    ]);
+    expect(report.stops.map((st) => st.broken)).to.deep.equal([
+      false,
+      true,
+      false,
+      true,
+    ]);
+    expect(report.stops.map((st) => st.renamed)).to.deep.equal([
+      false,
+      false,
+      true,
+      false,
+    ]);
+    expect(report.stops[0].rule).to.equal("moves");
+    expect(report.stops[1].rule).to.equal("deleted");
+    expect(report.stops[2].to!.relPath).to.equal("renamed-file.txt");
+    expect(report.stops[3].rule).to.equal("alreadyBroken");
+
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].line).to.equal(2);
+    expect(tf.stops[1].relPath).to.equal("");
+    expect(tf.stops[2].relPath).to.equal("renamed-file.txt");
+    expect(tf.stops[3]).to.deep.equal(legacy);
+  });
+
+  test("refresh to a version other than HEAD", async () => {
+    fs.writeFileSync(file, "Hello, world!");
+    await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const stop = {
+      absPath: file,
+      body: "body",
+      line: 1,
+      title: "title",
+      childStops: [],
+    };
+
+    const tf = await tourist.init();
+    await tourist.add(tf, stop, null);
+
+    fs.writeFileSync(file, "One\nHello, world!");
+    const release = await commitToRepo("Second commit");
+    await gp.git(repository, "tag", ["v1.0"]);
+    fs.writeFileSync(file, "One\nTwo\nHello, world!");
+    await commitToRepo("Third commit");
+
+    await tourist.refresh(tf, "repo", "v1.0");
+    expect(tf.stops[0].line).to.equal(2);
+    expect(tf.repositories[0].commit).to.equal(release);
+
+    try {
+      await tourist.refresh(tf, "repo", "no-such-ref");
+      expect.fail("refresh should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(206);
+    }
+
+    await tourist.refresh(tf, "repo");
+    expect(tf.stops[0].line).to.equal(3);
+  });
+
+  test("refreshing to HEAD is the same as refreshing", async () => {
+    fs.writeFileSync(file, "Hello, world!");
+    await commitToRepo("Initial commit");
+    await gp.git(repository, "checkout", ["-b", "side"]);
+    fs.writeFileSync(file, "Side\nHello, world!");
+    const side = await commitToRepo("Side commit");
+    await gp.git(repository, "checkout", ["-"]);
+    fs.writeFileSync(file, "One\nTwo\nHello, world!");
+    await commitToRepo("Main commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+    const tf = await tourist.init();
+    tf.repositories.push({ repository: "repo", commit: side });
+    tf.stops.push({
+      id: "Tour:0",
+      title: "title",
+      relPath: fileName.replace(/\\/g, "/"),
+      repository: "repo",
+      line: 2,
+      childStops: [],
+    });
+    const copy = JSON.parse(JSON.stringify(tf));
+
+    // The tour's commit isn't an ancestor of HEAD, so both are diffed against
+    // it directly rather than from where the branches split
+    await tourist.refresh(tf, "repo");
+    await tourist.refresh(copy, "repo", "HEAD");
+    expect(tf.stops[0].line).to.equal(3);
+    expect(copy.stops).to.deep.equal(tf.stops);
+
+    try {
+      await gp.getChangesForFiles(side, [], repository, "no-such-ref");
+      expect.fail("getChangesForFiles should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(206);
+    }
+  });
+
   test("deleting a stop's file has correct error message", async () => {
     fs.writeFileSync(file, "Some content");
     await commitToRepo("Initial commit");
@@ -0,0 +1,165 @@
+import chai from "chai";
+import chaiAsPromised from "chai-as-promised";
+import fs from "fs-extra";
+import { suite, test } from "mocha";
+import os from "os";
+import * as pathutil from "path";
+import { Tourist } from "..";
+import { AbsolutePath, RelativePath } from "../src/paths";
+import { HgProvider } from "../src/hgProvider";
+import { AbsoluteTourStop, BrokenTourStop, isNotBroken } from "../src/types";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const outputDir = pathutil.join(os.tmpdir(), "tourist-test-out");
+const repoDir = pathutil.join(outputDir, "repo");
+const hp = new HgProvider();
+
+suite("hg-provider", () => {
+  let repository: AbsolutePath;
+  let fileName: string;
+  let file: string;
+
+  async function commitToRepo(message: string): Promise<string> {
+    await hp.hg(repository, "addremove", []);
+    await hp.hg(repository, "commit", ["-u", "tourist", "-m", message]);
+    return (await hp.getCurrentVersion(repository))!;
+  }
+
+  before("make sure hg is installed", async function() {
+    try {
+      await hp.hg(new AbsolutePath(os.tmpdir()), "version", []);
+    } catch (_) {
+      this.skip();
+    }
+  });
+
+  before("make sure we're in a clean state", async () => {
+    await fs.remove(outputDir);
+  });
+
+  after("make sure we clean up", async () => {
+    await fs.remove(outputDir);
+  });
+
+  beforeEach("create necessary directories", async () => {
+    await fs.mkdir(outputDir);
+    await fs.mkdir(repoDir);
+
+    repository = new AbsolutePath(repoDir);
+    await hp.hg(repository, "init", []);
+    const fileDir = pathutil.join("some", "dir");
+    await fs.mkdirs(pathutil.join(repoDir, fileDir));
+
+    fileName = pathutil.join(fileDir, "my-file.txt");
+    file = pathutil.join(repoDir, fileName);
+  });
+
+  afterEach("remove directories", async () => {
+    await fs.remove(outputDir);
+  });
+
+  test("no version before the first commit", async () => {
+    // tslint:disable-next-line: no-unused-expression
+    expect(await hp.getCurrentVersion(repository)).to.be.null;
+  });
+
+  test("type not equal in different commits", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const version1 = await commitToRepo("Initial commit");
+    await fs.writeFile(file, "Hello, world!\nHello world again!");
+    const version2 = await commitToRepo("Second commit");
+    expect(version1).to.not.equal(version2);
+    expect(await hp.resolveVersion("tip", repository)).to.equal(version2);
+  });
+
+  test("files change correctly: small file", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const version = await commitToRepo("Initial commit");
+    await fs.writeFile(file, "Line before\nHello, world!\nLine after");
+    await commitToRepo("Second commit");
+
+    const changes = await hp.getChangesForFile(
+      version,
+      new RelativePath("repo", fileName),
+      repository,
+    );
+
+    expect(changes).to.not.be.a("null");
+    expect(changes!.additions).to.deep.equal([1, 3]);
+    expect(changes!.moves.get(1)).to.equal(2);
+  });
+
+  test("dirty changes include the working copy", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const version = await commitToRepo("Initial commit");
+    await fs.writeFile(file, "Line before\nHello, world!");
+
+    const changes = await hp.getDirtyChangesForFile(
+      version,
+      new RelativePath("repo", fileName),
+      repository,
+    );
+
+    expect(changes!.additions).to.deep.equal([1]);
+    expect(changes!.computeDelta(1)).to.equal(2);
+  });
+
+  test("renames work", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const version = await commitToRepo("Initial commit");
+    await hp.hg(repository, "mv", [fileName, "other-file.txt"]);
+    await commitToRepo("Second commit");
+
+    const changes = await hp.getChangesForFile(
+      version,
+      new RelativePath("repo", fileName),
+      repository,
+    );
+
+    expect(changes!.name).to.equal("other-file.txt");
+  });
+
+  test("file contents at a version", async () => {
+    await fs.writeFile(file, "Hello, world!");
+    const version = await commitToRepo("Initial commit");
+    await fs.writeFile(file, "Goodbye, world!");
+    await commitToRepo("Second commit");
+
+    const contents = await hp.getFileContents(
+      version,
+      new RelativePath("repo", fileName),
+      repository,
+    );
+    expect(contents).to.equal("Hello, world!");
+  });
+
+  test("tours work on hg repositories", async () => {
+    fs.writeFileSync(file, "Above deleted\nDELETE ME\nBelow deleted");
+    await commitToRepo("Initial commit");
+
+    const tourist = new Tourist();
+    tourist.mapConfig("repo", repoDir);
+
+    const tf = await tourist.init();
+    for (const line of [1, 2]) {
+      await tourist.add(
+        tf,
+        { absPath: file, title: "title", line, childStops: [] },
+        null,
+      );
+    }
+
+    expect(tf.repositories[0].vcs).to.equal("hg");
+
+    fs.writeFileSync(file, "Line before\nAbove deleted\nBelow deleted");
+    await commitToRepo("Second commit");
+    await tourist.refresh(tf, "repo");
+
+    const tour = await tourist.resolve(tf);
+    expect((tour.stops[0] as AbsoluteTourStop).line).to.equal(2);
+    expect(isNotBroken(tour.stops[1])).to.equal(false);
+    expect((tour.stops[1] as BrokenTourStop).lastKnown!.line).to.equal(2);
+  });
+});
@@ -0,0 +1,124 @@
+import chai from "chai";
+import { suite, test } from "mocha";
+import { mergeTourFiles } from "../src/merge";
+import { stop, tour } from "./fixtures";
+
+/**
+ * Tests for merging tour files.
+ */
+
+const expect = chai.expect;
+
+suite("merge", () => {
+  const base = tour([stop(0), stop(1), stop(2)]);
+
+  test("changes on both sides are combined", () => {
+    const ours = tour(
+      [stop(2), stop(0), stop(1, { title: "Our title" }), stop(3)],
+      { generator: 4, description: "Our description" },
+    );
+    const theirs = tour(
+      [stop(0), stop(1, { body: "Their body" }), stop(3, { title: "Theirs" })],
+      { generator: 4 },
+    );
+
+    const { tourFile, conflicts } = mergeTourFiles(base, ours, theirs);
+    expect(conflicts).to.deep.equal([]);
+    expect(tourFile.description).to.equal("Our description");
+    // Stop 2 was deleted by them, and the stops added on each side both get
+    // an ID, with theirs placed after the stop it follows on their side
+    expect(tourFile.stops.map((s) => s.id)).to.deep.equal([
+      "Tour:0",
+      "Tour:1",
+      "Tour:4",
+      "Tour:3",
+    ]);
+    expect(tourFile.stops[1]).to.deep.equal(
+      stop(1, { title: "Our title", body: "Their body" }),
+    );
+    expect(tourFile.stops[2]).to.deep.equal(
+      stop(3, { id: "Tour:4", title: "Theirs" }),
+    );
+    expect(tourFile.generator).to.equal(5);
+  });
+
+  test("one side's reordering is kept", () => {
+    const ours = tour([stop(0), stop(1), stop(2), stop(3)]);
+    const theirs = tour([stop(2), stop(1), stop(0)]);
+
+    const { tourFile, conflicts } = mergeTourFiles(base, ours, theirs);
+    expect(conflicts).to.deep.equal([]);
+    expect(tourFile.stops.map((s) => s.id)).to.deep.equal([
+      "Tour:2",
+      "Tour:3",
+      "Tour:1",
+      "Tour:0",
+    ]);
+  });
+
+  test("conflicting changes are reported", () => {
+    const ours = tour([stop(0, { title: "Ours" }), stop(2)], {
+      title: "Our tour",
+    });
+    const theirs = tour(
+      [stop(0, { title: "Theirs" }), stop(1, { body: "Changed" }), stop(2)],
+      { title: "Their tour" },
+    );
+
+    const { tourFile, conflicts } = mergeTourFiles(base, ours, theirs);
+    expect(conflicts).to.deep.equal([
+      { field: "title", base: "Tour", ours: "Our tour", theirs: "Their tour" },
+      {
+        field: "title",
+        stopId: "Tour:0",
+        base: "Stop 0",
+        ours: "Ours",
+        theirs: "Theirs",
+      },
+      {
+        field: "stop",
+        stopId: "Tour:1",
+        base: stop(1),
+        ours: undefined,
+        theirs: stop(1, { body: "Changed" }),
+      },
+    ]);
+    // Our side wins, but the changed stop is kept
+    expect(tourFile.title).to.equal("Our tour");
+    expect(tourFile.stops.map((s) => s.title)).to.deep.equal([
+      "Ours",
+      "Stop 1",
+      "Stop 2",
+    ]);
+  });
+
+  test("locations follow the side that moved the commit", () => {
+    const refreshed = { repositories: [{ repository: "repo", commit: "new" }] };
+    const ours = tour([stop(0, { line: 10 }), stop(1), stop(2)]);
+    const theirs = tour(
+      [stop(0, { line: 5 }), stop(1, { line: 6 }), stop(2, { line: 7 })],
+      refreshed,
+    );
+
+    const { tourFile, conflicts } = mergeTourFiles(base, ours, theirs);
+    expect(tourFile.repositories).to.deep.equal(refreshed.repositories);
+    expect(tourFile.stops.map((s) => s.line)).to.deep.equal([5, 6, 7]);
+    expect(conflicts).to.deep.equal([
+      {
+        field: "location",
+        stopId: "Tour:0",
+        base: { repository: "repo", relPath: "my-file.txt", line: 1 },
+        ours: { repository: "repo", relPath: "my-file.txt", line: 10 },
+        theirs: { repository: "repo", relPath: "my-file.txt", line: 5 },
+      },
+    ]);
+
+    const bothMoved = mergeTourFiles(
+      base,
+      tour(base.stops, { repositories: [{ repository: "repo", commit: "a" }] }),
+      tour(base.stops, { repositories: [{ repository: "repo", commit: "b" }] }),
+    );
+    expect(bothMoved.tourFile.repositories[0].commit).to.equal("a");
+    expect(bothMoved.conflicts.map((c) => c.field)).to.deep.equal(["commit"]);
+  });
+});
@@ -0,0 +1,178 @@
+import chai from "chai";
+import fs from "fs-extra";
+import { suite, test } from "mocha";
+import os from "os";
+import * as pathutil from "path";
+import { PassThrough } from "stream";
+import { AbsolutePath } from "../src/paths";
+import { TouristServer } from "../src/server";
+import { GitProvider } from "../src/versionProvider";
+
+/**
+ * Tests for the JSON-RPC server.
+ */
+
+const expect = chai.expect;
+
+const outputDir = pathutil.join(os.tmpdir(), "tourist-test-out");
+const repoDir = pathutil.join(outputDir, "repo");
+
+suite("server", () => {
+  let server: TouristServer;
+  let nextId: number;
+
+  /* Sends a request, returning the whole response. */
+  async function request(method: string, params?: object): Promise<any> {
+    const response = await server.handle(
+      JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+    );
+    return JSON.parse(response!);
+  }
+
+  before("make sure we're in a clean state", async () => {
+    await fs.remove(outputDir);
+  });
+
+  after("make sure we clean up", async () => {
+    await fs.remove(outputDir);
+  });
+
+  beforeEach("create a repository", async () => {
+    server = new TouristServer();
+    nextId = 1;
+    await fs.mkdirs(repoDir);
+    const gp = new GitProvider();
+    const repository = new AbsolutePath(repoDir);
+    await gp.git(repository, "init", []);
+    await fs.writeFile(pathutil.join(repoDir, "my-file.txt"), "One\nTwo\n");
+    await gp.git(repository, "add", ["-A"]);
+    await gp.git(repository, "commit", ["-m", "Initial commit"]);
+  });
+
+  afterEach("remove directories", async () => {
+    await fs.remove(outputDir);
+  });
+
+  test("tour files stay open between requests", async () => {
+    await request("mapConfig", { repo: "repo", path: repoDir });
+    const { result } = await request("init", { title: "My Tour" });
+    expect(result.tour).to.equal("untitled:1");
+    const tour = result.tour;
+
+    const file = pathutil.join(repoDir, "my-file.txt");
+    const added = await request("add", {
+      tour,
+      stop: { absPath: file, line: 2, title: "Second", childStops: [] },
+    });
+    expect(added.result).to.equal("My Tour:0");
+    await request("edit", {
+      tour,
+      stopId: "My Tour:0",
+      stopEdit: { body: "The second line" },
+    });
+
+    const resolved = await request("resolve", { tour });
+    expect(resolved.result.stops).to.deep.equal([
+      {
+        id: "My Tour:0",
+        title: "Second",
+        body: "The second line",
+        absPath: file,
+        line: 2,
+        childStops: [],
+      },
+    ]);
+
+    const tourPath = pathutil.join(outputDir, "my.tour");
+    await request("save", { tour, path: tourPath });
+    await request("close", { tour });
+    const opened = await request("open", { path: tourPath });
+    expect(opened.result.tour).to.equal(tourPath);
+    expect(opened.result.tourFile.stops[0].body).to.equal("The second line");
+  });
+
+  test("errors are structured", async () => {
+    const { result } = await request("deserializeTourFile", {
+      json: JSON.stringify({
+        protocolVersion: "1.0",
+        id: "Tour",
+        title: "Tour",
+        description: "",
+        version: "0.10.0",
+        stops: [],
+        repositories: [{ repository: "gone", commit: "abc" }],
+      }),
+    });
+
+    const unmapped = await request("refresh", {
+      tour: result.tour,
+      repository: "gone",
+    });
+    expect(unmapped.error).to.deep.equal({
+      code: 200,
+      message: "Repository gone is not mapped to a path.",
+      data: { repository: "gone" },
+    });
+
+    const missing = await request("remove", { tour: result.tour, stopId: "x" });
+    expect(missing.error.code).to.equal(0);
+
+    const badStop = await request("add", {
+      tour: result.tour,
+      stop: { absPath: "/a.txt", line: "1" },
+    });
+    expect(badStop.error.code).to.equal(-32602);
+    expect(badStop.error.data.problems).to.deep.equal([
+      "stop.title missing",
+      "stop.line must be a number",
+      "stop.childStops missing",
+    ]);
+    const badPos = await request("move", {
+      tour: result.tour,
+      stopId: "x",
+      stopPos: { line: 1, column: "2" },
+    });
+    expect(badPos.error.data.problems).to.deep.equal([
+      "stopPos.absPath missing",
+      "stopPos.column must be a number",
+    ]);
+
+    expect((await request("resolve", { tour: "nope" })).error.code).to.equal(
+      -32001,
+    );
+    expect((await request("resolve", {})).error.code).to.equal(-32602);
+    expect((await request("frobnicate")).error.code).to.equal(-32601);
+    expect(JSON.parse((await server.handle("{"))!).error.code).to.equal(-32700);
+  });
+
+  test("serve requests from a stream", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = "";
+    output.on("data", (chunk) => (written += chunk));
+
+    const done = server.listen(input, output);
+    input.write(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "mapConfig",
+        params: { repo: "repo", path: repoDir },
+      }) + "\n",
+    );
+    input.write(
+      JSON.stringify({ jsonrpc: "2.0", id: 1, method: "dumpConfig" }) + "\n",
+    );
+    input.end();
+    await done;
+
+    // The notification gets no response
+    expect(
+      written
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line)),
+    ).to.deep.equal([
+      { jsonrpc: "2.0", id: 1, result: { repo: repoDir + pathutil.sep } },
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import chai from "chai";
+import chaiAsPromised from "chai-as-promised";
+import fs from "fs-extra";
+import { suite, test } from "mocha";
+import os from "os";
+import * as pathutil from "path";
+import { Tourist } from "..";
+import { AbsolutePath, RelativePath } from "../src/paths";
+import { SnapshotProvider } from "../src/snapshotProvider";
+import { AbsoluteTourStop, BrokenTourStop, isNotBroken } from "../src/types";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+const outputDir = pathutil.join(os.tmpdir(), "tourist-test-out");
+const repoDir = pathutil.join(outputDir, "dir");
+const storeDir = pathutil.join(outputDir, "store");
+
+suite("snapshot-provider", () => {
+  let sp: SnapshotProvider;
+  let repository: AbsolutePath;
+  let fileName: string;
+  let file: string;
+
+  before("make sure we're in a clean state", async () => {
+    await fs.remove(outputDir);
+  });
+
+  after("make sure we clean up", async () => {
+    await fs.remove(outputDir);
+  });
+
+  beforeEach("create necessary directories", async () => {
+    await fs.mkdir(outputDir);
+    await fs.mkdir(repoDir);
+
+    sp = new SnapshotProvider(storeDir);
+    repository = new AbsolutePath(repoDir);
+    const fileDir = pathutil.join("some", "dir");
+    await fs.mkdirs(pathutil.join(repoDir, fileDir));
+
+    fileName = pathutil.join(fileDir, "my-file.txt");
+    file = pathutil.join(repoDir, fileName);
+  });
+
+  afterEach("remove directories", async () => {
+    await fs.remove(outputDir);
+  });
+
+  test("versions follow the contents of the directory", async () => {
+    fs.writeFileSync(file, "Hello, world!");
+    const v1 = await sp.getCurrentVersion(repository);
+    expect(v1).to.not.equal(null);
+    expect(await sp.getCurrentVersion(repository)).to.equal(v1);
+
+    fs.writeFileSync(file, "Goodbye, world!");
+    const v2 = await sp.getCurrentVersion(repository);
+    expect(v2).to.not.equal(v1);
+    // Only the latest version is remembered until it's pinned
+    expect(await sp.resolveVersion(v2!)).to.equal(v2);
+    expect(await sp.resolveVersion(v1!)).to.equal(null);
+    expect(await sp.resolveVersion("nonsense")).to.equal(null);
+    expect(await sp.getCurrentVersion(new AbsolutePath(file))).to.equal(null);
+    expect(await fs.pathExists(storeDir)).to.equal(false);
+  });
+
+  test("only pinned versions are stored", async () => {
+    fs.writeFileSync(file, "First");
+    const v1 = await sp.getCurrentVersion(repository);
+    await sp.pinVersion(v1!, repository);
+    expect(await fs.pathExists(storeDir)).to.equal(true);
+
+    fs.writeFileSync(file, "Second");
+    const v2 = await sp.getCurrentVersion(repository);
+    const path = new RelativePath("dir", fileName);
+    expect(await sp.getFileContents(v2!, path, repository)).to.equal("Second");
+    fs.writeFileSync(file, "Third");
+    await expect(sp.getFileContents(v2!, path, repository)).to.be.rejected;
+    await expect(sp.pinVersion(v2!, repository)).to.be.rejected;
+    expect(await sp.resolveVersion(v1!)).to.equal(v1);
+  });
+
+  test("files are only hashed again when they change", async () => {
+    const old = new Date(Date.now() - 60000);
+    fs.writeFileSync(file, "Hello");
+    fs.utimesSync(file, old, old);
+    const v1 = await sp.getCurrentVersion(repository);
+
+    // Same size and modification time, so taken to be unchanged
+    fs.writeFileSync(file, "Jello");
+    fs.utimesSync(file, old, old);
+    expect(await sp.getCurrentVersion(repository)).to.equal(v1);
+
+    fs.writeFileSync(file, "Jello!");
+    expect(await sp.getCurrentVersion(repository)).to.not.equal(v1);
+  });
+
+  test("version control directories are left alone", async () => {
+    fs.writeFileSync(file, "Hello, world!");
+    const v1 = await sp.getCurrentVersion(repository);
+    await fs.mkdirs(pathutil.join(repoDir, "some", ".git"));
+    expect(await sp.getCurrentVersion(repository)).to.equal(v1);
+
+    await fs.mkdirs(pathutil.join(repoDir, ".git"));
+    expect(await sp.getCurrentVersion(repository)).to.equal(null);
+  });
+
+  test("file contents at a version", async () => {
+    fs.writeFileSync(file, "First");
+    const v1 = await sp.getCurrentVersion(repository);
+    await sp.pinVersion(v1!, repository);
+    fs.writeFileSync(file, "Second");
+
+    const contents = await sp.getFileContents(
+      v1!,
+      new RelativePath("dir", fileName),
+      repository,
+    );
+    expect(contents).to.equal("First");
+  });
+
+  test("files change correctly", async () => {
+    fs.writeFileSync(file, "A\nB\nC\nD\nE\n");
+    const v1 = await sp.getCurrentVersion(repository);
+    await sp.pinVersion(v1!, repository);
+    fs.writeFileSync(file, "new\nA\nC\nD\nchanged\nE\n");
+
+    const path = new RelativePath("dir", fileName);
+    const dirty = await sp.getDirtyChangesForFile(v1!, path, repository);
+    expect(dirty!.deletions).to.deep.equal([2]);
+    expect(dirty!.additions).to.deep.equal([1, 5]);
+    expect([1, 2, 3, 4, 5].map((l) => dirty!.computeDelta(l))).to.deep.equal([
+      2,
+      null,
+      3,
+      4,
+      6,
+    ]);
+
+    const changes = await sp.getChangesForFile(v1!, path, repository);
+    expect(changes).to.deep.equal(dirty);
+  });
+
+  test("renames work", async () => {
+    fs.writeFileSync(file, "Line 1\nLine 2\n");
+    const v1 = await sp.getCurrentVersion(repository);
+    await sp.pinVersion(v1!, repository);
+
+    const newName = pathutil.join("some", "moved.txt");
+    fs.moveSync(file, pathutil.join(repoDir, newName));
+    const changes = await sp.getChangesForFile(
+      v1!,
+      new RelativePath("dir", fileName),
+      repository,
+    );
+    expect(changes!.name).to.equal(newName.replace(/\\/g, "/"));
+    expect(changes!.computeDelta(2)).to.equal(2);
+  });
+
+  test("tours work on plain directories", async () => {
+    fs.writeFileSync(file, "Above deleted\nDELETE ME\nBelow deleted");
+
+    const tourist = new Tourist();
+    tourist.registerProvider("snapshot", sp);
+    tourist.mapConfig("dir", repoDir);
+
+    const tf = await tourist.init();
+    const withoutSnapshots = new Tourist();
+    withoutSnapshots.mapConfig("dir", repoDir);
+    await expect(
+      withoutSnapshots.add(
+        tf,
+        { absPath: file, title: "title", line: 1, childStops: [] },
+        null,
+      ),
+    ).to.be.rejectedWith("Could not get current version");
+    for (const line of [1, 2]) {
+      await tourist.add(
+        tf,
+        { absPath: file, title: "title", line, childStops: [] },
+        null,
+      );
+    }
+    expect(tf.repositories[0].vcs).to.equal("snapshot");
+
+    fs.writeFileSync(file, "Line before\nAbove deleted\nBelow deleted");
+    await tourist.refresh(tf, "dir");
+
+    const tour = await tourist.resolve(tf);
+    expect((tour.stops[0] as AbsoluteTourStop).line).to.equal(2);
+    expect(isNotBroken(tour.stops[1])).to.equal(false);
+    expect((tour.stops[1] as BrokenTourStop).lastKnown!.line).to.equal(2);
+  });
+});
@@ -0,0 +1,154 @@
+import chai from "chai";
+import { suite, test } from "mocha";
+import { diffTourFiles, summarizeTourDiff } from "../src/tourDiff";
+import { COMMIT, stop, tour } from "./fixtures";
+
+/**
+ * Tests for diffing tour files.
+ */
+
+const expect = chai.expect;
+
+suite("tourDiff", () => {
+  const base = tour([stop(0), stop(1), stop(2)]);
+
+  test("identical tours have no changes", () => {
+    const diff = diffTourFiles(base, tour([stop(0), stop(1), stop(2)]));
+    expect(diff).to.deep.equal({
+      fields: [],
+      added: [],
+      removed: [],
+      reordered: [],
+      edited: [],
+      relocated: [],
+      commits: [],
+    });
+    expect(summarizeTourDiff(diff)).to.equal("No changes.\n");
+  });
+
+  test("stops are matched up by ID", () => {
+    const changed = tour(
+      [stop(3), stop(2, { title: "New title" }), stop(0, { body: "New body" })],
+      { title: "New tour" },
+    );
+
+    const diff = diffTourFiles(base, changed);
+    expect(diff.fields).to.deep.equal([
+      { field: "title", from: "Tour", to: "New tour" },
+    ]);
+    expect(diff.added).to.deep.equal([
+      { id: "Tour:3", title: "Stop 3", index: 0 },
+    ]);
+    expect(diff.removed).to.deep.equal([
+      { id: "Tour:1", title: "Stop 1", index: 1 },
+    ]);
+    // Only one of the two remaining stops needs to move to get the new order
+    expect(diff.reordered).to.deep.equal([
+      { id: "Tour:0", title: "Stop 0", from: 0, to: 2 },
+    ]);
+    expect(diff.edited).to.deep.equal([
+      {
+        id: "Tour:2",
+        title: "New title",
+        field: "title",
+        from: "Stop 2",
+        to: "New title",
+      },
+      {
+        id: "Tour:0",
+        title: "Stop 0",
+        field: "body",
+        from: "Body 0",
+        to: "New body",
+      },
+    ]);
+    expect(summarizeTourDiff(diff)).to.equal(
+      [
+        `- Renamed the tour from "Tour" to "New tour"`,
+        `- Added stop "Stop 3" at position 1`,
+        `- Removed stop "Stop 1"`,
+        `- Moved stop "Stop 0" from position 1 to 3`,
+        `- Renamed stop "Stop 2" to "New title"`,
+        `- Changed the body of stop "Stop 0"`,
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("refreshes are told apart from moves", () => {
+    const anchor = { before: ["{"], target: "foo();", after: ["}"] };
+    const old = tour([
+      stop(0, { anchor }),
+      stop(1, { anchor }),
+      stop(2),
+      stop(3),
+    ]);
+    const refreshed = tour(
+      [
+        stop(0, { line: 11, anchor }),
+        // The target line was rewritten, and the anchor captured again
+        stop(1, { line: 12, anchor: { ...anchor, target: "foo(1);" } }),
+        stop(2, { relPath: "other-file.txt", line: 40, symbol: "bar" }),
+        stop(3, {
+          relPath: "",
+          line: 0,
+          lastKnown: {
+            repository: "repo",
+            relPath: "my-file.txt",
+            line: 4,
+            commit: COMMIT,
+          },
+        }),
+      ],
+      { repositories: [{ repository: "repo", commit: "fedcba9876543210" }] },
+    );
+    refreshed.stops[1].anchor!.after = ["return;"];
+    old.stops[2].symbol = "foo";
+
+    const diff = diffTourFiles(old, refreshed);
+    expect(diff.commits).to.deep.equal([
+      {
+        repository: "repo",
+        from: COMMIT,
+        to: "fedcba9876543210",
+      },
+    ]);
+    expect(diff.relocated.map((loc) => [loc.id, loc.kind])).to.deep.equal([
+      ["Tour:0", "refreshed"],
+      ["Tour:1", "refreshed"],
+      ["Tour:2", "moved"],
+      ["Tour:3", "broken"],
+    ]);
+    expect(diff.relocated[0]).to.deep.equal({
+      id: "Tour:0",
+      title: "Stop 0",
+      kind: "refreshed",
+      from: {
+        repository: "repo",
+        relPath: "my-file.txt",
+        line: 1,
+        commit: COMMIT,
+      },
+      to: {
+        repository: "repo",
+        relPath: "my-file.txt",
+        line: 11,
+        commit: "fedcba9876543210",
+      },
+    });
+    expect(summarizeTourDiff(diff)).to.equal(
+      [
+        "- Moved repository `repo` from `0123456` to `fedcba9` " +
+          "(2 stops updated)",
+        `- Pointed stop "Stop 2" at \`other-file.txt:40\` ` +
+          "(was `my-file.txt:3`)",
+        `- Stop "Stop 3" is broken (was \`my-file.txt:4\`)`,
+        "",
+      ].join("\n"),
+    );
+
+    // Without a new commit, a changed location can't be a refresh
+    const moved = tour([stop(0, { line: 11, anchor }), ...old.stops.slice(1)]);
+    expect(diffTourFiles(old, moved).relocated[0].kind).to.equal("moved");
+  });
+});
@@ -5,7 +5,7 @@ import { suite, test } from "mocha";
 import os from "os";
 import * as pathutil from "path";
 import { AbsoluteTourStop, Tourist } from "..";
-import { isNotBroken, TouristError, RepoIndex } from "../src/types";
+import { isNotBroken, TouristError, RepoIndex, StopRange } from "../src/types";
 import { VersionProvider } from "../src/versionProvider";
 import { AbsolutePath, RelativePath } from "../src/paths";
 import { FileChanges } from "../src/fileChanges";
@@ -19,6 +19,13 @@ class MockProvider implements VersionProvider {
   public async getCurrentVersion(_path: AbsolutePath): Promise<string | null> {
     return "VERSION";
   }
+  public async resolveVersion(
+    ref: string,
+    // tslint:disable variable-name
+    _path: AbsolutePath,
+  ): Promise<string | null> {
+    return ref;
+  }
   public async getChangesForFile(
     // tslint:disable variable-name
     _version: string,
@@ -38,6 +45,43 @@ class MockProvider implements VersionProvider {
   ): Promise<FileChanges | null> {
     return new FileChanges([], [], new Map(), path.path);
   }
+
+  public async getChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<Array<FileChanges | null>> {
+    return Promise.all(
+      paths.map((path) => this.getChangesForFile(version, path, repoPath)),
+    );
+  }
+
+  public async getDirtyChangesForFiles(
+    version: string,
+    paths: RelativePath[],
+    repoPath: AbsolutePath,
+  ): Promise<Array<FileChanges | null>> {
+    return Promise.all(
+      paths.map((path) => this.getDirtyChangesForFile(version, path, repoPath)),
+    );
+  }
+
+  public async getFileContents(
+    // tslint:disable variable-name
+    _version: string,
+    path: RelativePath,
+    repoPath: AbsolutePath,
+  ): Promise<string | null> {
+    return await fs.readFile(pathutil.join(repoPath.path, path.path), "UTF-8");
+  }
+
+  public async listFiles(
+    // tslint:disable variable-name
+    _version: string,
+    repoPath: AbsolutePath,
+  ): Promise<string[] | null> {
+    return await fs.readdir(repoPath.path);
+  }
 }
 
 chai.use(chaiAsPromised);
@@ -284,6 +328,693 @@ suite("tourist", () => {
     expect(tour.stops[2]).to.deep.equal({ ...stops[0], id: stopIds[0] });
   });
 
+  test("symbols are only recorded when asked for", async () => {
+    const file = pathutil.join(repoDir, "my-file.ts");
+    await fs.writeFile(file, "function greet() {\n  return 1;\n}\n");
+    const stop = { absPath: file, line: 2, title: "greet", childStops: [] };
+
+    const tf = await tourist.init();
+    await tourist.add(tf, stop);
+    await tourist.add(tf, { ...stop, trackSymbol: true });
+    await tourist.add(tf, { ...stop, symbol: "elsewhere" });
+    expect(tf.stops.map((s) => s.symbol)).to.deep.equal([
+      undefined,
+      "greet",
+      "elsewhere",
+    ]);
+  });
+
+  test("undo and redo", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello, world!\nHello, world!\nHello, world!");
+    const stop = { absPath: file, line: 1, title: "A stop", childStops: [] };
+
+    const tf = await tourist.init("A Tour");
+    const first = await tourist.add(tf, stop);
+    const second = await tourist.add(tf, { ...stop, line: 2 });
+    const added = tourist.serializeTourFile(tf);
+
+    await tourist.edit(tf, first, { title: "Edited" });
+    await tourist.reorder(tf, second, 0);
+    await tourist.remove(tf, first);
+    await tourist.rename(tf, "Renamed");
+    expect(tf.stops.map((s) => s.id)).to.deep.equal([second]);
+
+    expect(await tourist.undo(tf)).to.equal("rename");
+    expect(tf.title).to.equal("A Tour");
+    expect(await tourist.undo(tf)).to.equal("remove");
+    expect(tf.stops.map((s) => s.id)).to.deep.equal([second, first]);
+    expect(await tourist.undo(tf)).to.equal("reorder");
+    expect(await tourist.undo(tf)).to.equal("edit");
+    expect(tourist.serializeTourFile(tf)).to.equal(added);
+
+    expect(await tourist.redo(tf)).to.equal("edit");
+    expect(tf.stops[0].title).to.equal("Edited");
+
+    // A new change can't be followed by a redo
+    await tourist.editDescription(tf, "New description");
+    expect(await tourist.redo(tf)).to.equal(null);
+
+    expect(await tourist.undo(tf)).to.equal("editDescription");
+    expect(await tourist.undo(tf)).to.equal("edit");
+    expect(await tourist.undo(tf)).to.equal("add");
+    expect(await tourist.undo(tf)).to.equal("add");
+    expect(await tourist.undo(tf)).to.equal(null);
+    expect(tf.stops).to.deep.equal([]);
+    expect(tf.repositories).to.deep.equal([]);
+  });
+
+  test("undo history is bounded", async () => {
+    const limited = new Tourist();
+    limited.historyLimit = 2;
+    const tf = await limited.init("A Tour");
+    for (const name of ["One", "Two", "Three"]) {
+      await limited.rename(tf, name);
+    }
+
+    expect(await limited.undo(tf)).to.equal("rename");
+    expect(await limited.undo(tf)).to.equal("rename");
+    expect(await limited.undo(tf)).to.equal(null);
+    expect(tf.title).to.equal("One");
+  });
+
+  test("concurrent operations are undone one at a time", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello, world!\nHello, world!\nHello, world!");
+    const stop = { absPath: file, line: 1, title: "A stop", childStops: [] };
+
+    const tf = await tourist.init("A Tour");
+    await Promise.all([
+      tourist.add(tf, stop),
+      tourist.rename(tf, "Renamed"),
+      tourist.add(tf, { ...stop, line: 2 }),
+    ]);
+    expect(tf.stops.length).to.equal(2);
+
+    expect(await tourist.undo(tf)).to.equal("add");
+    expect(await tourist.undo(tf)).to.equal("rename");
+    expect(tf.title).to.equal("A Tour");
+    expect(await tourist.undo(tf)).to.equal("add");
+    expect(tf.stops).to.deep.equal([]);
+    expect(await tourist.undo(tf)).to.equal(null);
+  });
+
+  test("undo keeps stops with duplicate IDs", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello, world!\nHello, world!\nHello, world!");
+    const stop = { absPath: file, line: 1, childStops: [] };
+
+    const tf = await tourist.init("A Tour");
+    await tourist.add(tf, { ...stop, title: "first" }, null, "dup");
+    await tourist.add(tf, { ...stop, title: "second" }, null, "dup");
+    const added = tourist.serializeTourFile(tf);
+
+    await tourist.rename(tf, "Renamed");
+    await tourist.edit(tf, "dup", { title: "edited" });
+    expect(await tourist.undo(tf)).to.equal("edit");
+    expect(await tourist.undo(tf)).to.equal("rename");
+    expect(tourist.serializeTourFile(tf)).to.equal(added);
+    expect(tf.stops.map((s) => s.title)).to.deep.equal(["first", "second"]);
+
+    expect(await tourist.undo(tf)).to.equal("add");
+    expect(tf.stops.map((s) => s.title)).to.deep.equal(["first"]);
+  });
+
+  test("refreshAll leaves the tour untouched on failure", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello, world!");
+
+    const tf = await tourist.init();
+    tf.repositories = [
+      { repository: "repo", commit: "OLD" },
+      { repository: "missing", commit: "OLD" },
+      { repository: "also-missing", commit: "OLD" },
+    ];
+    tf.stops = ["repo", "missing", "also-missing"].map((repository, idx) => ({
+      id: `Tour:${idx}`,
+      line: 1,
+      relPath: "my-file.txt",
+      repository,
+      title: "title",
+      childStops: [],
+    }));
+    const before = JSON.parse(JSON.stringify(tf));
+
+    try {
+      await tourist.refreshAll(tf);
+      expect.fail("refreshAll should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(205);
+      expect(e.causes.map((c: TouristError) => c.repoName)).to.deep.equal([
+        "missing",
+        "also-missing",
+      ]);
+    }
+    expect(tf).to.deep.equal(before);
+
+    tf.repositories = tf.repositories.slice(0, 2);
+    tf.stops = tf.stops.slice(0, 2);
+    try {
+      await tourist.add(
+        tf,
+        { absPath: file, title: "title", line: 1, childStops: [] },
+        null,
+      );
+      expect.fail("add should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(200);
+      expect(e.repoName).to.equal("missing");
+    }
+
+    tf.repositories = tf.repositories.slice(0, 1);
+    tf.stops = tf.stops.slice(0, 1);
+    await tourist.refreshAll(tf);
+    expect(tf.repositories[0].commit).to.equal("VERSION");
+  });
+
+  test("check a tour for problems", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello\nworld\n");
+    const vp = new MockProvider();
+    vp.resolveVersion = async (ref: string) => (ref === "GONE" ? null : ref);
+    const checker = new Tourist();
+    checker.vp = vp;
+    checker.mapConfig("repo", repoDir);
+    checker.mapConfig("old", repoDir);
+
+    const tf = await checker.init("Tour");
+    const other = await checker.init("Other");
+    tf.repositories = [
+      { repository: "repo", commit: "VERSION" },
+      { repository: "old", commit: "GONE" },
+      { repository: "unmapped", commit: "VERSION" },
+    ];
+    const stop = (id: string, fields: object = {}) => ({
+      id,
+      title: "Title",
+      body: "Body",
+      relPath: "my-file.txt",
+      repository: "repo",
+      line: 1,
+      childStops: [],
+      ...fields,
+    });
+    tf.stops = [
+      stop("Tour:0", {
+        childStops: [
+          { tourId: "Tour", stopNum: 1 },
+          { tourId: "Other", stopNum: 0 },
+          { tourId: "Missing", stopNum: 0 },
+        ],
+      }),
+      stop("Tour:0", { title: "", body: "", relPath: "missing.txt" }),
+      stop("Tour:2", { relPath: "", line: 0 }),
+      stop("Tour:3", { repository: "nowhere" }),
+      stop("Tour:4", { repository: "old" }),
+      stop("Tour:5", { repository: "unmapped" }),
+    ];
+    const before = JSON.parse(JSON.stringify(tf));
+
+    const issues = await checker.checkTour(tf, [other]);
+    expect(tf).to.deep.equal(before);
+    expect(
+      issues.map((issue) => [
+        issue.severity,
+        issue.code,
+        issue.stopId || issue.repository,
+      ]),
+    ).to.deep.equal([
+      ["error", "UnreachableCommit", "old"],
+      ["error", "UnmappedRepository", "unmapped"],
+      ["error", "StopOutOfRange", "Tour:0"],
+      ["error", "MissingTour", "Tour:0"],
+      ["error", "DuplicateStopId", "Tour:0"],
+      ["warning", "EmptyTitle", "Tour:0"],
+      ["warning", "EmptyBody", "Tour:0"],
+      ["error", "BrokenStop", "Tour:0"],
+      ["error", "BrokenStop", "Tour:2"],
+      ["error", "UnknownRepository", "Tour:3"],
+    ]);
+    expect(issues[7]).to.deep.equal({
+      severity: "error",
+      code: "BrokenStop",
+      message: "Stop Tour:0 is broken: FileNotFound.",
+      stopId: "Tour:0",
+      repository: "repo",
+    });
+
+    other.stops = [stop("Other:0")];
+    tf.stops = tf.stops.slice(0, 1);
+    tf.stops[0].childStops = [{ tourId: "Other", stopNum: 0 }];
+    tf.repositories = tf.repositories.slice(0, 1);
+    expect(await checker.checkTour(tf, [other])).to.deep.equal([]);
+  });
+
+  test("repositories use the version provider recorded for them", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "Hello, world!");
+
+    const other = new Tourist();
+    other.mapConfig("repo", repoDir);
+    const tf = await other.init();
+    tf.repositories = [{ repository: "repo", commit: "OLD", vcs: "mock" }];
+    tf.stops = [
+      {
+        id: "Tour:0",
+        line: 1,
+        relPath: "my-file.txt",
+        repository: "repo",
+        title: "title",
+        childStops: [],
+      },
+    ];
+
+    try {
+      await other.refresh(tf, "repo");
+      expect.fail("refresh should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(207);
+      expect(e.repoName).to.equal("repo");
+    }
+
+    other.registerProvider("mock", new MockProvider());
+    await other.refresh(tf, "repo");
+    expect(tf.repositories[0]).to.deep.equal({
+      repository: "repo",
+      commit: "VERSION",
+      vcs: "mock",
+    });
+
+    const copy = other.deserializeTourFile(other.serializeTourFile(tf));
+    expect(copy.repositories).to.deep.equal(tf.repositories);
+  });
+
+  test("line ranges must fit in the file", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "one\ntwo\nthree");
+
+    const tf = await tourist.init();
+    const stop = { absPath: file, title: "x", line: 2, childStops: [] };
+    const bad: Array<[StopRange, number]> = [
+      [{ endLine: 4 }, 101],
+      [{ endLine: 1 }, 102],
+      [{ column: 0 }, 101],
+      [{ endLine: 3, endColumn: -1 }, 101],
+      [{ column: 3, endColumn: 2 }, 102],
+      [{ endLine: 2, column: 3, endColumn: 2 }, 102],
+    ];
+    for (const [range, code] of bad) {
+      try {
+        await tourist.add(tf, { ...stop, ...range });
+        expect.fail("add should have failed");
+      } catch (e) {
+        expect(e.code).to.equal(code);
+      }
+    }
+
+    await tourist.add(tf, { ...stop, endLine: 3, column: 2 });
+    expect(tf.stops[0].endLine).to.equal(3);
+    expect(tf.stops[0].column).to.equal(2);
+    expect(tf.stops[0]).to.not.have.property("endColumn");
+
+    const copy = tourist.deserializeTourFile(tourist.serializeTourFile(tf));
+    expect(copy.stops[0].endLine).to.equal(3);
+    expect(copy.stops[0].column).to.equal(2);
+  });
+
+  test("old tour files are migrated", async () => {
+    const legacy = {
+      title: "Old Tour",
+      repositories: [{ repository: "repo", commit: "OLD" }],
+      stops: [
+        { title: "a", line: 1, relPath: "a.txt", repository: "repo" },
+        { title: "b", line: 2, relPath: "b.txt", repository: "repo" },
+      ],
+    };
+    const result = tourist.migrateTourFile(JSON.stringify(legacy));
+    expect(result.migrations.length).to.equal(1);
+    expect(result.tourFile.protocolVersion).to.equal("1.0");
+    expect(result.tourFile.stops.map((stop) => stop.id)).to.deep.equal([
+      "Old Tour:0",
+      "Old Tour:1",
+    ]);
+    expect(result.tourFile.stops[0].childStops).to.deep.equal([]);
+    expect(result.tourFile.generator).to.equal(2);
+
+    const current = tourist.serializeTourFile(await tourist.init());
+    expect(tourist.migrateTourFile(current).migrations).to.deep.equal([]);
+  });
+
+  test("old tour files with stops that aren't objects are rejected", () => {
+    const legacy = { title: "Old Tour", repositories: [], stops: [null, 3] };
+    try {
+      tourist.deserializeTourFile(JSON.stringify(legacy));
+      expect.fail("deserializeTourFile should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(401);
+      expect(e.problems).to.deep.equal([
+        "stops[0] must be an object",
+        "stops[1] must be an object",
+      ]);
+    }
+  });
+
+  test("tour files from newer versions are rejected", async () => {
+    const tf = { ...(await tourist.init()), protocolVersion: "2.0" };
+    try {
+      tourist.deserializeTourFile(JSON.stringify(tf));
+      expect.fail("deserializeTourFile should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(402);
+    }
+
+    try {
+      tourist.deserializeTourFile(JSON.stringify({ title: 3 }));
+      expect.fail("deserializeTourFile should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(401);
+    }
+  });
+
+  test("invalid tour files list their problems", async () => {
+    const tf = await tourist.init();
+    const obj = {
+      ...tf,
+      description: undefined,
+      repositories: [{ repository: "repo" }],
+      stops: [
+        {
+          id: "Tour:0",
+          title: "title",
+          line: "3",
+          relPath: "a.txt",
+          repository: "repo",
+          childStops: [{ tourId: "other" }],
+        },
+      ],
+    };
+    try {
+      tourist.deserializeTourFile(JSON.stringify(obj));
+      expect.fail("deserializeTourFile should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(401);
+      expect(e.problems).to.deep.equal([
+        "description missing",
+        "stops[0].line must be a number",
+        "stops[0].childStops[0].stopNum missing",
+        "repositories[0].commit missing",
+      ]);
+    }
+
+    try {
+      tourist.deserializeTourFile("[]");
+      expect.fail("deserializeTourFile should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(401);
+    }
+  });
+
+  test("export to markdown", async () => {
+    const file = pathutil.join(repoDir, "my-file.ts");
+    await fs.writeFile(file, "one\ntwo\nthree\nfour\nfive\n```");
+
+    const tf = await tourist.init("My Tour", "What this tour is about.");
+    await tourist.add(tf, {
+      absPath: file,
+      title: "First",
+      body: "Look at this.",
+      line: 2,
+      childStops: [],
+    });
+    tf.stops.push({
+      id: "My Tour:broken",
+      title: "Second",
+      line: 0,
+      relPath: "",
+      repository: "repo",
+      childStops: [],
+      lastKnown: {
+        repository: "repo",
+        relPath: "gone.ts",
+        line: 4,
+        commit: "OLD",
+      },
+    });
+
+    const md = await tourist.exportMarkdown(tf, { context: 1 });
+    expect(md).to.equal(
+      [
+        "# My Tour",
+        "What this tour is about.",
+        "## 1. First",
+        "`repo/my-file.ts:2`",
+        "Look at this.",
+        "```typescript\none\ntwo\nthree\n```",
+        "## 2. Second",
+        "> **Broken stop:** this stop could not be found (FileNotFound). " +
+          "It was last seen at `repo/gone.ts:4` in version `OLD`.",
+      ].join("\n\n") + "\n",
+    );
+
+    tf.stops[0].endLine = 5;
+    const fenced = await tourist.exportMarkdown(tf, { context: 1 });
+    expect(fenced).to.include("`repo/my-file.ts:2-5`");
+    expect(fenced).to.include("````typescript\none\n");
+    expect(fenced).to.include("```\n````");
+  });
+
+  test("export to a static site", async () => {
+    const file = pathutil.join(repoDir, "my-file.ts");
+    await fs.writeFile(
+      file,
+      `const greeting = "<hi>";\n// A comment\nlet n = \`\${1}\`;\n`,
+    );
+
+    const first = await tourist.init("First Tour");
+    await tourist.add(first, {
+      absPath: file,
+      title: "Greeting",
+      line: 1,
+      childStops: [],
+    });
+    await tourist.add(first, {
+      absPath: file,
+      title: "Template",
+      line: 3,
+      childStops: [{ tourId: "Second Tour", stopNum: 0 }],
+    });
+    const second = await tourist.init("Second Tour");
+    await tourist.add(second, {
+      absPath: file,
+      title: "Comment",
+      line: 2,
+      childStops: [],
+    });
+
+    const siteDir = pathutil.join(outputDir, "site");
+    const written = await tourist.exportSite([first, second], siteDir);
+    expect(written.map((f) => pathutil.relative(siteDir, f))).to.deep.equal(
+      [
+        "index.html",
+        "first-tour/index.html",
+        "first-tour/1.html",
+        "first-tour/2.html",
+        "second-tour/index.html",
+        "second-tour/1.html",
+      ].map((f) => f.replace(/\//g, pathutil.sep)),
+    );
+
+    const stop = await fs.readFile(written[2], "utf8");
+    expect(stop).to.include(`<a href="2.html">Next &rarr;</a>`);
+    expect(stop).to.include(
+      `<span class="line target" id="L1"><span class="ln">1</span>` +
+        `<span class="kw">const</span> greeting = ` +
+        `<span class="str">&quot;&lt;hi&gt;&quot;</span>;</span>`,
+    );
+    expect(stop).to.include(`<span class="com">// A comment</span>`);
+
+    const linked = await fs.readFile(written[3], "utf8");
+    expect(linked).to.include(`<a href="1.html">&larr; Previous</a>`);
+    expect(linked).to.include(`<a href="../second-tour/1.html">`);
+    expect(linked).to.include(
+      `<span class="str">\`\${</span><span class="num">1</span>` +
+        `<span class="str">}\`</span>`,
+    );
+
+    // Tours with the same ID don't overwrite each other
+    const copy = { ...second, title: "Copy" };
+    const copied = await tourist.exportSite([second, copy], siteDir);
+    expect(copied.map((f) => pathutil.relative(siteDir, f))).to.include(
+      pathutil.join("second-tour-2", "1.html"),
+    );
+    const index = await fs.readFile(copied[0], "utf8");
+    expect(index).to.include(`<a href="second-tour-2/index.html">Copy</a>`);
+  });
+
+  test("import from CodeTour", async () => {
+    await fs.mkdirs(pathutil.join(repoDir, "src"));
+    await fs.writeFile(
+      pathutil.join(repoDir, "src", "main.ts"),
+      "function main() {\n  return 1;\n}\n",
+    );
+    const codeTour = {
+      $schema: "https://aka.ms/codetour-schema",
+      title: "Intro",
+      description: "The basics",
+      steps: [
+        { file: "src/main.ts", line: 2, title: "Main", description: "Hi" },
+        { directory: "src", description: "All the code" },
+        { file: "src/main.ts", pattern: "return", description: "Pattern" },
+        { uri: "https://example.com", description: "Docs" },
+        {
+          file: "src/main.ts",
+          selection: {
+            end: { character: 2, line: 3 },
+            start: { character: 1, line: 1 },
+          },
+          description: "Whole thing",
+        },
+        { file: "src/main.ts", line: 40, description: "Too far" },
+      ],
+    };
+
+    const { tourFile, skipped } = await tourist.importCodeTour(
+      JSON.stringify(codeTour),
+      "repo",
+      true,
+    );
+    expect(tourFile.title).to.equal("Intro");
+    expect(tourFile.description).to.equal("The basics");
+    expect(tourFile.repositories).to.deep.equal([
+      { repository: "repo", commit: "VERSION", vcs: "git" },
+    ]);
+    expect(
+      tourFile.stops.map(({ id, title, body, line, endLine, symbol }) => ({
+        id,
+        title,
+        body,
+        line,
+        endLine,
+        symbol,
+      })),
+    ).to.deep.equal([
+      {
+        id: "Intro:0",
+        title: "Main",
+        body: "Hi",
+        line: 2,
+        endLine: undefined,
+        symbol: "main",
+      },
+      {
+        id: "Intro:1",
+        title: "Step 5",
+        body: "Whole thing",
+        line: 1,
+        endLine: 3,
+        symbol: "main",
+      },
+    ]);
+    expect(tourFile.stops[0].relPath).to.equal("src/main.ts");
+    expect(skipped.map((s) => s.index)).to.deep.equal([1, 2, 3, 5]);
+    expect(skipped[0].reason).to.include("Directory");
+
+    const untracked = await tourist.importCodeTour(
+      JSON.stringify(codeTour),
+      "repo",
+    );
+    expect(untracked.tourFile.stops[0].symbol).to.equal(undefined);
+
+    const tour = await tourist.resolve(tourFile);
+    expect(
+      tour.stops.map((stop) => (isNotBroken(stop) ? stop.line : 0)),
+    ).to.deep.equal([2, 1]);
+
+    try {
+      await tourist.importCodeTour(
+        JSON.stringify({ title: "No steps" }),
+        "repo",
+      );
+      expect.fail("import of an invalid CodeTour should have failed");
+    } catch (e) {
+      expect(e.code).to.equal(403);
+    }
+  });
+
+  test("export to CodeTour", async () => {
+    const file = pathutil.join(repoDir, "my-file.txt");
+    await fs.writeFile(file, "One\nTwo\nThree\nFour");
+
+    const tf = await tourist.init("A Tour", "Some description");
+    await tourist.add(tf, {
+      absPath: file,
+      title: "Single",
+      body: "A line",
+      line: 2,
+      childStops: [{ tourId: "Other", stopNum: 0 }],
+    });
+    await tourist.add(tf, {
+      absPath: file,
+      title: "Range",
+      line: 1,
+      endLine: 3,
+      childStops: [],
+    });
+    tf.repositories.push({ repository: "other", commit: "abc", vcs: "hg" });
+    tf.stops.push(
+      {
+        ...tf.stops[0],
+        id: "A Tour:2",
+        title: "Elsewhere",
+        repository: "other",
+        childStops: [],
+      },
+      { ...tf.stops[0], id: "A Tour:3", title: "Gone", line: 0, relPath: "" },
+    );
+
+    const { tours, lost } = tourist.exportCodeTour(tf);
+    expect(tours.map((t) => t.repository)).to.deep.equal(["repo", "other"]);
+    expect(tours[0].codeTour).to.deep.equal({
+      $schema: "https://aka.ms/codetour-schema",
+      title: "A Tour (repo)",
+      description: "Some description",
+      ref: "VERSION",
+      steps: [
+        {
+          title: "Single",
+          description: "A line",
+          file: "my-file.txt",
+          line: 2,
+        },
+        {
+          title: "Range",
+          description: "",
+          file: "my-file.txt",
+          line: 1,
+          selection: {
+            start: { line: 1, character: 1 },
+            end: { line: 4, character: 1 },
+          },
+        },
+      ],
+    });
+    expect(tours[1].codeTour.ref).to.equal(undefined);
+    expect(tours[1].codeTour.steps.map((step) => step.title)).to.deep.equal([
+      "Elsewhere",
+    ]);
+    expect(lost.map((issue) => issue.index)).to.deep.equal([0, 3]);
+
+    // Ranges survive the trip back
+    tours[0].codeTour.title = "A Tour";
+    const { tourFile } = await tourist.importCodeTour(
+      JSON.stringify(tours[0].codeTour),
+      "repo",
+    );
+    expect(tourFile.stops[1].line).to.equal(1);
+    expect(tourFile.stops[1].endLine).to.equal(3);
+    expect(tourFile.stops[1].endColumn).to.equal(undefined);
+  });
+
   test("file path is standard", async () => {
     await fs.mkdirs(pathutil.join(repoDir, "test"));
     const file = pathutil.join(repoDir, "test", "my-file.txt");